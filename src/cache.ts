@@ -210,6 +210,62 @@ export class FileCache implements Cache {
 
 }
 
+/**
+ * Routes keys (uris) to the cache of the workspace folder with the longest matching uri.
+ * Keys outside of all folders use the cache of the first folder added.
+ */
+export class WorkspaceFolderCache implements Cache {
+
+    private _caches: [string, Cache][];
+    private _default: Cache;
+
+    constructor() {
+        this._caches = [];
+        this._default = new MemoryCache();
+    }
+
+    add(folderUri: string, cache: Cache) {
+        this.remove(folderUri);
+        this._caches.push([folderUri.replace(/\/?$/, '/'), cache]);
+    }
+
+    remove(folderUri: string) {
+        let prefix = folderUri.replace(/\/?$/, '/');
+        this._caches = this._caches.filter((x) => { return x[0] !== prefix; });
+    }
+
+    read(key: string) {
+        return this._find(key).read(key);
+    }
+
+    write(key: string, data: any) {
+        return this._find(key).write(key, data);
+    }
+
+    delete(key: string) {
+        return this._find(key).delete(key);
+    }
+
+    flush() {
+        return Promise.all(this._caches.map((x) => { return x[1].flush(); })).then(() => {
+            return this._default.flush();
+        });
+    }
+
+    private _find(key: string) {
+        let found: [string, Cache];
+        for (let n = 0, l = this._caches.length; n < l; ++n) {
+            if (key.indexOf(this._caches[n][0]) === 0 && (!found || this._caches[n][0].length > found[0].length)) {
+                found = this._caches[n];
+            }
+        }
+        if (found) {
+            return found[1];
+        }
+        return this._caches.length ? this._caches[0][1] : this._default;
+    }
+
+}
 
 export function writeArrayToDisk(items:any[], filePath:string) {
 
@@ -0,0 +1,478 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { Position, Range, SymbolKind as LspSymbolKind } from 'vscode-languageserver-types';
+import { PhpSymbol, SymbolKind, SymbolModifier } from './symbol';
+import { SymbolStore, SymbolTable } from './symbolStore';
+import { SymbolProvider } from './symbolProvider';
+import { MemberMergeStrategy, TypeAggregate } from './typeAggregate';
+import { ReferenceStore, ReferenceTable, Reference, Scope } from './reference';
+import { TreeVisitor } from './types';
+import { Log } from './logger';
+import * as util from './util';
+
+export interface CallHierarchyItem {
+    name: string;
+    kind: LspSymbolKind;
+    detail?: string;
+    uri: string;
+    range: Range;
+    selectionRange: Range;
+}
+
+export interface CallHierarchyIncomingCall {
+    from: CallHierarchyItem;
+    fromRanges: Range[];
+}
+
+export interface CallHierarchyOutgoingCall {
+    to: CallHierarchyItem;
+    fromRanges: Range[];
+}
+
+export class CallHierarchyProvider {
+
+    constructor(public symbolStore: SymbolStore, public refStore: ReferenceStore, public symbolProvider: SymbolProvider) { }
+
+    /**
+     * Function or method at position
+     * @param uri
+     * @param position
+     */
+    prepareCallHierarchy(uri: string, position: Position) {
+
+        let table = this.refStore.getReferenceTable(uri);
+        let ref = table ? table.referenceAtPosition(position) : undefined;
+
+        if (!ref || !(ref.kind & (SymbolKind.Function | SymbolKind.Method | SymbolKind.Constructor))) {
+            return [];
+        }
+
+        return this._toItems(this._callTargets(ref));
+
+    }
+
+    /**
+     * Calls to item grouped by the function or method that makes the call.
+     * Calls made outside of a function or method are attributed to the file.
+     * @param item
+     */
+    incomingCalls(item: CallHierarchyItem): Promise<CallHierarchyIncomingCall[]> {
+
+        let symbol = this._itemSymbol(item);
+        if (!symbol || symbol.kind === SymbolKind.File) {
+            return Promise.resolve<CallHierarchyIncomingCall[]>([]);
+        }
+
+        let promises = [this.refStore.find(symbol.name, this._createCallReferenceFilterFn(symbol))];
+        if (symbol.kind === SymbolKind.Method && symbol.name.toLowerCase() === '__construct' && symbol.scope) {
+            promises.push(this.refStore.find(symbol.scope, this._createConstructorReferenceFilterFn(symbol)));
+        }
+
+        return Promise.all(promises).then((results) => {
+            let refs: Reference[] = [];
+            for (let n = 0, l = results.length; n < l; ++n) {
+                Array.prototype.push.apply(refs, results[n]);
+            }
+            return this._groupByScope(symbol, refs);
+        });
+
+    }
+
+    /**
+     * Functions and methods called from within the body of item
+     * @param item
+     */
+    outgoingCalls(item: CallHierarchyItem): Promise<CallHierarchyOutgoingCall[]> {
+
+        let symbol = this._itemSymbol(item);
+        let symbolTable = this.symbolStore.getSymbolTable(item.uri);
+        if (!symbol || !symbolTable) {
+            return Promise.resolve<CallHierarchyOutgoingCall[]>([]);
+        }
+
+        return this.refStore.fetchReferenceTable(item.uri).then((table) => {
+
+            let callables = this._callableSymbols(symbolTable);
+            let isNestedCallableFn = (x: Scope) => {
+                return !util.rangeEquality(x.location.range, symbol.location.range) &&
+                    this._scopeSymbol(x, callables) !== undefined;
+            };
+            let visitor = new CallReferencesVisitor(symbol.location.range, isNestedCallableFn);
+            table.traverse(visitor);
+
+            let map = new Map<PhpSymbol, Range[]>();
+            let refs = this._removeDeclarationReference(symbol, visitor.references);
+            let targets: PhpSymbol[];
+            let ranges: Range[];
+
+            for (let n = 0, l = refs.length; n < l; ++n) {
+                targets = this._callTargets(refs[n]);
+                for (let k = 0, j = targets.length; k < j; ++k) {
+                    if (!(ranges = map.get(targets[k]))) {
+                        map.set(targets[k], ranges = []);
+                    }
+                    ranges.push(refs[n].location.range);
+                }
+            }
+
+            let calls: CallHierarchyOutgoingCall[] = [];
+            map.forEach((v, k) => {
+                let to = this._toItem(k);
+                if (to) {
+                    calls.push({ to: to, fromRanges: v });
+                }
+            });
+            return calls;
+
+        }).catch((msg) => {
+            Log.warn(msg);
+            return <CallHierarchyOutgoingCall[]>[];
+        });
+
+    }
+
+    /**
+     * Groups refs by the innermost named function or method scope
+     * in each reference table that contains them
+     * @param symbol
+     * @param refs
+     */
+    private _groupByScope(symbol: PhpSymbol, refs: Reference[]) {
+
+        let uriMap: { [index: string]: Reference[] } = {};
+        let uris: string[] = [];
+        let uri: string;
+
+        for (let n = 0, l = refs.length; n < l; ++n) {
+            uri = refs[n].location.uri;
+            if (!uriMap[uri]) {
+                uriMap[uri] = [];
+                uris.push(uri);
+            }
+            uriMap[uri].push(refs[n]);
+        }
+
+        let calls: CallHierarchyIncomingCall[] = [];
+        let callsInTableFn = (table: ReferenceTable) => {
+            Array.prototype.push.apply(calls, this._incomingCallsInTable(symbol, table, uriMap[table.uri]));
+        };
+        let onFail = (msg: string) => {
+            Log.warn(msg);
+        };
+
+        //one table at a time so that tables read from cache do not pile up in memory
+        return uris.reduce<Promise<void>>((carry, val) => {
+            return carry.then(() => {
+                return this.refStore.fetchReferenceTable(val).then(callsInTableFn).catch(onFail);
+            });
+        }, Promise.resolve()).then(() => {
+            return calls;
+        });
+
+    }
+
+    private _incomingCallsInTable(symbol: PhpSymbol, table: ReferenceTable, refs: Reference[]) {
+
+        let symbolTable = this.symbolStore.getSymbolTable(table.uri);
+        if (!symbolTable) {
+            return [];
+        }
+
+        let visitor = new EnclosingScopesVisitor(refs);
+        table.traverse(visitor);
+        let callables = this._callableSymbols(symbolTable);
+        let map = new Map<PhpSymbol, Reference[]>();
+        let found = visitor.found;
+        let caller: PhpSymbol;
+        let scopes: Scope[];
+        let callerRefs: Reference[];
+
+        for (let n = 0, l = found.length; n < l; ++n) {
+            scopes = found[n].scopes;
+            caller = undefined;
+            for (let k = scopes.length - 1; k >= 0 && !caller; --k) {
+                caller = this._scopeSymbol(scopes[k], callables);
+            }
+            if (!caller) {
+                caller = symbolTable.root;
+            }
+            if (!(callerRefs = map.get(caller))) {
+                map.set(caller, callerRefs = []);
+            }
+            callerRefs.push(found[n].reference);
+        }
+
+        let calls: CallHierarchyIncomingCall[] = [];
+        map.forEach((v, k) => {
+            if (k.kind === symbol.kind && k.name.toLowerCase() === symbol.name.toLowerCase()) {
+                v = this._removeDeclarationReference(k, v);
+            }
+            let from = this._toItem(k, table.uri);
+            if (v.length && from) {
+                calls.push({ from: from, fromRanges: v.map((x) => { return x.location.range; }) });
+            }
+        });
+
+        return calls;
+
+    }
+
+    /**
+     * The declaration name of a function or method is recorded as a reference
+     * within its own scope ahead of any recursive call
+     * @param symbol
+     * @param refs in document order
+     */
+    private _removeDeclarationReference(symbol: PhpSymbol, refs: Reference[]) {
+
+        let lcName = symbol.name.toLowerCase();
+        let declaration = util.find(refs, (x) => {
+            return x.kind === symbol.kind && x.name.toLowerCase() === lcName;
+        });
+
+        return declaration ? refs.filter((x) => { return x !== declaration; }) : refs;
+
+    }
+
+    private _createCallReferenceFilterFn(symbol: PhpSymbol) {
+
+        if (symbol.kind === SymbolKind.Function) {
+            return (r: Reference) => {
+                return r.kind === SymbolKind.Function;
+            };
+        }
+
+        let lcScope = symbol.scope ? symbol.scope.toLowerCase() : '';
+        let map: { [index: string]: boolean } = {};
+        map[lcScope] = true;
+        let associatedFilterFn = (x: PhpSymbol) => {
+            return lcScope === x.name.toLowerCase();
+        };
+
+        return (r: Reference) => {
+
+            if (r.kind !== SymbolKind.Method || !r.scope) {
+                return false;
+            }
+
+            let lcRefScope = r.scope.toLowerCase();
+            if (map[lcRefScope] !== undefined) {
+                return map[lcRefScope];
+            }
+
+            let aggregate = TypeAggregate.create(this.symbolStore, r.scope);
+            return map[lcRefScope] = aggregate ? aggregate.associated(associatedFilterFn).length > 0 : false;
+
+        };
+
+    }
+
+    private _createConstructorReferenceFilterFn(symbol: PhpSymbol) {
+        let lcScope = symbol.scope.toLowerCase();
+        return (r: Reference) => {
+            return r.kind === SymbolKind.Constructor && r.name.toLowerCase() === lcScope;
+        };
+    }
+
+    /**
+     * Function and method symbols that ref may call
+     * @param ref
+     */
+    private _callTargets(ref: Reference) {
+
+        switch (ref.kind) {
+            case SymbolKind.Function:
+                return this.symbolStore.findSymbolsByReference(ref);
+            case SymbolKind.Method:
+                return this.symbolStore.findSymbolsByReference(ref, MemberMergeStrategy.Override);
+            case SymbolKind.Constructor:
+                return this.symbolStore.findSymbolsByReference(
+                    { kind: SymbolKind.Method, name: '__construct', scope: ref.name, location: ref.location },
+                    MemberMergeStrategy.Override
+                );
+            default:
+                return [];
+        }
+
+    }
+
+    private _callableSymbols(table: SymbolTable) {
+        return table.filter((x) => {
+            return (x.kind & (SymbolKind.Function | SymbolKind.Method)) > 0 &&
+                !(x.modifiers & (SymbolModifier.Anonymous | SymbolModifier.Use)) &&
+                x.location !== undefined;
+        });
+    }
+
+    private _scopeSymbol(scope: Scope, callables: PhpSymbol[]) {
+        return util.find(callables, (x) => {
+            return util.rangeEquality(x.location.range, scope.location.range);
+        });
+    }
+
+    private _itemSymbol(item: CallHierarchyItem) {
+
+        let table = this.symbolStore.getSymbolTable(item.uri);
+        if (!table) {
+            return undefined;
+        }
+
+        if (item.kind === LspSymbolKind.File) {
+            return table.root;
+        }
+
+        return util.find(this._callableSymbols(table), (x) => {
+            return util.rangeEquality(x.location.range, item.range);
+        });
+
+    }
+
+    private _toItems(symbols: PhpSymbol[]) {
+
+        let items: CallHierarchyItem[] = [];
+        let item: CallHierarchyItem;
+
+        for (let n = 0, l = symbols.length; n < l; ++n) {
+            if ((item = this._toItem(symbols[n]))) {
+                items.push(item);
+            }
+        }
+
+        return items;
+
+    }
+
+    private _toItem(s: PhpSymbol, uri?: string): CallHierarchyItem {
+
+        if (!s.location) {
+            return undefined;
+        }
+
+        if (s.kind === SymbolKind.File) {
+            let name = s.name.split('/').pop();
+            return {
+                name: name,
+                kind: LspSymbolKind.File,
+                uri: uri || s.name,
+                range: s.location.range,
+                selectionRange: s.location.range
+            };
+        }
+
+        if (!(s.kind & (SymbolKind.Function | SymbolKind.Method))) {
+            return undefined;
+        }
+
+        let info = this.symbolProvider.toSymbolInformation(s, uri);
+        if (!info.location) {
+            return undefined;
+        }
+
+        return {
+            name: info.name,
+            kind: info.kind,
+            detail: info.containerName,
+            uri: info.location.uri,
+            range: info.location.range,
+            selectionRange: info.location.range
+        };
+
+    }
+
+}
+
+interface EnclosedReference {
+    reference: Reference;
+    scopes: Scope[];
+}
+
+/**
+ * Finds the scopes that enclose each of the given refs.
+ * Refs are matched by position as tables read from cache are new objects.
+ */
+class EnclosingScopesVisitor implements TreeVisitor<Scope | Reference> {
+
+    private _found: EnclosedReference[];
+    private _positionMap: { [index: string]: Reference };
+
+    constructor(refs: Reference[]) {
+        this._found = [];
+        this._positionMap = {};
+        for (let n = 0, l = refs.length; n < l; ++n) {
+            this._positionMap[this._key(refs[n])] = refs[n];
+        }
+    }
+
+    get found() {
+        return this._found;
+    }
+
+    preorder(node: Scope | Reference, spine: (Scope | Reference)[]) {
+
+        if ((<Reference>node).kind === undefined) {
+            return true;
+        }
+
+        let ref = this._positionMap[this._key(<Reference>node)];
+        if (ref) {
+            this._found.push({ reference: ref, scopes: <Scope[]>spine.slice(0) });
+        }
+
+        return false;
+
+    }
+
+    private _key(ref: Reference) {
+        let start = ref.location.range.start;
+        return start.line + ':' + start.character;
+    }
+
+}
+
+/**
+ * Collects call references within the scope at range,
+ * excluding those in nested function and method scopes
+ */
+class CallReferencesVisitor implements TreeVisitor<Scope | Reference> {
+
+    private _references: Reference[];
+    private _inScope = false;
+
+    constructor(public range: Range, public isExcludedScope: (scope: Scope) => boolean) {
+        this._references = [];
+    }
+
+    get references() {
+        return this._references;
+    }
+
+    preorder(node: Scope | Reference, spine: (Scope | Reference)[]) {
+
+        if ((<Reference>node).kind === undefined) {
+            if (this._inScope) {
+                return !this.isExcludedScope(<Scope>node);
+            } else if (util.rangeEquality(node.location.range, this.range)) {
+                this._inScope = true;
+            }
+            return true;
+        }
+
+        if (this._inScope && ((<Reference>node).kind & (SymbolKind.Function | SymbolKind.Method | SymbolKind.Constructor)) > 0) {
+            this._references.push(<Reference>node);
+        }
+
+        return false;
+
+    }
+
+    postorder(node: Scope | Reference, spine: (Scope | Reference)[]) {
+        if (this._inScope && (<Reference>node).kind === undefined && util.rangeEquality(node.location.range, this.range)) {
+            this._inScope = false;
+        }
+    }
+
+}
@@ -0,0 +1,302 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { Range, Position, Command, TextEdit, WorkspaceEdit } from 'vscode-languageserver-types';
+import { ParsedDocument, ParsedDocumentStore } from './parsedDocument';
+import { SymbolStore, SymbolTable } from './symbolStore';
+import { SymbolKind, SymbolModifier, PhpSymbol } from './symbol';
+import { Reference, ReferenceStore } from './reference';
+import { UseDeclarationHelper } from './useDeclarationHelper';
+import { TypeAggregate, MemberMergeStrategy } from './typeAggregate';
+import { TypeString } from './typeString';
+import { Phrase, PhraseType, Token, TokenType } from 'php7parser';
+import * as util from './util';
+
+export namespace CodeActionCommand {
+    /**
+     * Arguments: [WorkspaceEdit]
+     */
+    export const applyWorkspaceEdit = 'intelephense.applyWorkspaceEdit';
+    /**
+     * Arguments: [uri]
+     */
+    export const organizeImports = 'intelephense.organizeImports';
+}
+
+export class CodeActionProvider {
+
+    constructor(public symbolStore: SymbolStore, public docStore: ParsedDocumentStore, public refStore: ReferenceStore) { }
+
+    provideCodeActions(uri: string, range: Range) {
+
+        let doc = this.docStore.find(uri);
+        let table = this.symbolStore.getSymbolTable(uri);
+        let refTable = this.refStore.getReferenceTable(uri);
+
+        if (!doc || !table || !refTable) {
+            return [];
+        }
+
+        let commands: Command[] = [];
+        let fn = (r: Reference) => {
+            return (r.kind & (SymbolKind.Class | SymbolKind.Constructor)) > 0 &&
+                !r.altName &&
+                (util.isInRange(range.start, r.location.range) === 0 || util.isInRange(r.location.range.start, range) === 0);
+        };
+        let refs = refTable.references(fn);
+
+        for (let n = 0, l = refs.length; n < l; ++n) {
+            Array.prototype.push.apply(commands, this._importSymbolCommands(refs[n], doc, table));
+        }
+
+        Array.prototype.push.apply(commands, this._implementMethodsCommands(doc, table, range));
+
+        if (table.filter(this._isUseDeclarationSymbol).length) {
+            commands.push(Command.create('Organize imports', CodeActionCommand.organizeImports, uri));
+        }
+
+        return commands;
+
+    }
+
+    private _isUseDeclarationSymbol(s: PhpSymbol) {
+        const mask = SymbolKind.Class | SymbolKind.Function | SymbolKind.Constant;
+        return (s.modifiers & SymbolModifier.Use) > 0 && (s.kind & mask) > 0;
+    }
+
+    /**
+     * An import command for each class like symbol with the same short name
+     * as an unqualified, unresolved reference
+     * @param ref
+     * @param doc
+     * @param table
+     */
+    private _importSymbolCommands(ref: Reference, doc: ParsedDocument, table: SymbolTable) {
+
+        let text = doc.text.slice(doc.offsetAtPosition(ref.location.range.start), doc.offsetAtPosition(ref.location.range.end));
+
+        if (!text || text.indexOf('\\') > -1 || this.symbolStore.find(ref.name, PhpSymbol.isClassLike).length > 0) {
+            return [];
+        }
+
+        let helper = new UseDeclarationHelper(doc, table, ref.location.range.start);
+        if (helper.findUseSymbolByName(text)) {
+            //declaration would clash with an existing import
+            return [];
+        }
+
+        let lcText = text.toLowerCase();
+        let fn = (x: PhpSymbol) => {
+            return PhpSymbol.isClassLike(x) && PhpSymbol.notFqn(x.name).toLowerCase() === lcText;
+        };
+        let fqns = new Set<string>(this.symbolStore.match(text, fn).map((x) => { return x.name; }));
+        let commands: Command[] = [];
+        let edit: WorkspaceEdit;
+
+        fqns.forEach((fqn) => {
+            edit = { changes: {} };
+            edit.changes[doc.uri] = [helper.insertDeclarationTextEdit({ kind: SymbolKind.Class, name: fqn })];
+            commands.push(Command.create(`Import '${fqn}'`, CodeActionCommand.applyWorkspaceEdit, edit));
+        });
+
+        return commands;
+
+    }
+
+    /**
+     * A command that adds stubs for abstract and interface methods
+     * not implemented by the concrete class at range
+     * @param doc
+     * @param table
+     * @param range
+     */
+    private _implementMethodsCommands(doc: ParsedDocument, table: SymbolTable, range: Range) {
+
+        let classSymbol = table.filter((x) => {
+            return x.kind === SymbolKind.Class && x.location && util.isInRange(range.start, x.location.range) === 0;
+        }).pop();
+
+        if (!classSymbol || (classSymbol.modifiers & (SymbolModifier.Abstract | SymbolModifier.Anonymous)) > 0) {
+            return [];
+        }
+
+        let missing = this._missingMethods(classSymbol);
+        let closeBrace = this._classCloseBrace(doc, classSymbol);
+
+        if (!missing.length || !closeBrace) {
+            return [];
+        }
+
+        let braceRange = doc.tokenRange(closeBrace);
+        let lineText = doc.text.slice(doc.offsetAtPosition(Position.create(braceRange.start.line, 0)), doc.offsetAtPosition(braceRange.start));
+        let classIndent = util.whitespace(classSymbol.location.range.start.character);
+        let stubs = missing.map((x) => {
+            return this._methodStubText(x, classIndent + '    ');
+        }).join('\n');
+        let textEdit: TextEdit;
+
+        if (!lineText.trim()) {
+            textEdit = TextEdit.insert(Position.create(braceRange.start.line, 0), stubs);
+        } else {
+            textEdit = TextEdit.insert(braceRange.start, '\n' + stubs + classIndent);
+        }
+
+        let edit: WorkspaceEdit = { changes: {} };
+        edit.changes[doc.uri] = [textEdit];
+        return [Command.create('Implement missing methods', CodeActionCommand.applyWorkspaceEdit, edit)];
+
+    }
+
+    private _missingMethods(classSymbol: PhpSymbol) {
+
+        let aggregate = new TypeAggregate(this.symbolStore, classSymbol);
+        let methods = aggregate.members(MemberMergeStrategy.None, this._isMethod);
+        let map: { [index: string]: PhpSymbol[] } = {};
+        let lcName: string;
+
+        for (let n = 0, l = methods.length; n < l; ++n) {
+            lcName = methods[n].name.toLowerCase();
+            if (!map[lcName]) {
+                map[lcName] = [];
+            }
+            map[lcName].push(methods[n]);
+        }
+
+        let missing: PhpSymbol[] = [];
+        let keys = Object.keys(map);
+        for (let n = 0, l = keys.length; n < l; ++n) {
+            if (!map[keys[n]].some(this._isImplementedMethod)) {
+                missing.push(map[keys[n]][0]);
+            }
+        }
+
+        return missing;
+
+    }
+
+    private _isMethod(s: PhpSymbol) {
+        return s.kind === SymbolKind.Method;
+    }
+
+    private _isImplementedMethod = (s: PhpSymbol) => {
+        let isInterfaceFn = (x: PhpSymbol) => {
+            return x.kind === SymbolKind.Interface;
+        };
+        return !(s.modifiers & SymbolModifier.Abstract) && !this.symbolStore.find(s.scope, isInterfaceFn).length;
+    }
+
+    private _classCloseBrace(doc: ParsedDocument, classSymbol: PhpSymbol) {
+
+        let classNode = doc.find((x) => {
+            return (<Phrase>x).phraseType === PhraseType.ClassDeclaration &&
+                util.rangeEquality(doc.nodeRange(x), classSymbol.location.range);
+        }) as Phrase;
+
+        let body = classNode ? ParsedDocument.findChild(classNode, (x) => {
+            return (<Phrase>x).phraseType === PhraseType.ClassDeclarationBody;
+        }) as Phrase : undefined;
+
+        let last = body && body.children ? body.children[body.children.length - 1] as Token : undefined;
+        return last && last.tokenType === TokenType.CloseBrace ? last : undefined;
+
+    }
+
+    private _methodStubText(s: PhpSymbol, indent: string) {
+
+        let lines: string[] = [];
+        let params = s.children ? s.children.filter((x) => { return x.kind === SymbolKind.Parameter; }) : [];
+        let docLines = this._docBlockLines(s, params);
+
+        if (docLines.length) {
+            lines.push('/**');
+            Array.prototype.push.apply(lines, docLines.map((x) => { return x ? ' * ' + x : ' *'; }));
+            lines.push(' */');
+        }
+
+        let header = (s.modifiers & SymbolModifier.Protected) > 0 ? 'protected ' : 'public ';
+        if (s.modifiers & SymbolModifier.Static) {
+            header += 'static ';
+        }
+        header += `function ${s.name}(${params.map(this._parameterText).join(', ')})`;
+        if (s.type) {
+            header += ': ' + this._typeDeclarationText(s.type);
+        }
+
+        lines.push(header, '{', '}');
+        return lines.map((x) => { return indent + x + '\n'; }).join('');
+
+    }
+
+    private _docBlockLines(s: PhpSymbol, params: PhpSymbol[]) {
+
+        let lines: string[] = [];
+        let tags: string[] = [];
+
+        if (s.doc && s.doc.description) {
+            Array.prototype.push.apply(lines, s.doc.description.split(/\r?\n/));
+        }
+
+        for (let n = 0, l = params.length; n < l; ++n) {
+            if (params[n].doc && params[n].doc.type) {
+                tags.push(['@param', this._docTypeText(params[n].doc.type), params[n].name, params[n].doc.description].join(' ').trim());
+            }
+        }
+
+        if (s.doc && s.doc.type) {
+            tags.push('@return ' + this._docTypeText(s.doc.type));
+        }
+
+        if (lines.length && tags.length) {
+            lines.push('');
+        }
+
+        Array.prototype.push.apply(lines, tags);
+        return lines;
+
+    }
+
+    private _parameterText = (s: PhpSymbol) => {
+
+        let text = s.type ? this._typeDeclarationText(s.type) + ' ' : '';
+
+        if (s.modifiers & SymbolModifier.Reference) {
+            text += '&';
+        }
+
+        if (s.modifiers & SymbolModifier.Variadic) {
+            text += '...';
+        }
+
+        text += s.name;
+
+        if (s.value) {
+            text += ' = ' + s.value;
+        }
+
+        return text;
+
+    }
+
+    private _typeDeclarationText(type: string) {
+        let nullable = type.slice(-5).toLowerCase() === '|null';
+        if (nullable) {
+            type = type.slice(0, -5);
+        }
+        return (nullable ? '?' : '') + this._docTypeText(type);
+    }
+
+    /**
+     * Fully qualifies class names in typeString
+     * @param typeString
+     */
+    private _docTypeText(typeString: string) {
+        return typeString.split('|').map((x) => {
+            let name = x.replace(/(\[\])+$/, '');
+            return name[0] !== '\\' && TypeString.atomicClassArray(name).length ? '\\' + x : x;
+        }).join('|');
+    }
+
+}
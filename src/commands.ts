@@ -4,7 +4,7 @@
 
 'use strict';
 
-import {Position, TextEdit} from 'vscode-languageserver-types';
+import {Position, TextEdit, Range} from 'vscode-languageserver-types';
 import { ParsedDocument, ParsedDocumentStore } from './parsedDocument';
 import { ParseTreeTraverser } from './parseTreeTraverser';
 import { SymbolStore, SymbolTable } from './symbolStore';
@@ -12,7 +12,8 @@ import { SymbolKind, PhpSymbol } from './symbol';
 import { Reference, ReferenceStore, ReferenceTable} from './reference';
 import { ReferenceReader } from './referenceReader';
 import { NameResolver } from './nameResolver';
-import { Phrase, PhraseType, Token } from 'php7parser';
+import { Phrase, PhraseType, Token, TokenType } from 'php7parser';
+import { TreeTraverser } from './types';
 import {UseDeclarationHelper} from './useDeclarationHelper';
 import * as util from './util';
 
@@ -89,3 +90,231 @@ export class NameTextEditProvider {
     }
 
 }
+
+export class OrganizeImportsProvider {
+
+    /**
+     * Group declarations with a common namespace prefix into a single group clause
+     */
+    group = false;
+
+    constructor(public symbolStore:SymbolStore, public docStore:ParsedDocumentStore, public refStore:ReferenceStore) {
+
+    }
+
+    /**
+     * Edits that remove unused use declarations and sort the remainder by kind then name.
+     * Documents with more than one namespace definition are not organised.
+     * @param uri 
+     */
+    provideOrganizeImportsTextEdits(uri:string) {
+
+        let edits:TextEdit[] = [];
+        let doc = this.docStore.find(uri);
+        let table = this.symbolStore.getSymbolTable(uri);
+        let refTable = this.refStore.getReferenceTable(uri);
+
+        if(!doc || !table || !refTable) {
+            return edits;
+        }
+
+        let traverser = new TreeTraverser<Phrase|Token>([doc.tree]);
+        if(traverser.filter(this._isNamespaceDefinition).length > 1) {
+            return edits;
+        }
+
+        let helper = new UseDeclarationHelper(doc, table, Position.create(0, 0));
+        let declarations = helper.findNamespaceUseDeclarations();
+        if(!declarations.length) {
+            return edits;
+        }
+
+        let declarationRanges = declarations.map((x) => {
+            return doc.nodeRange(x);
+        });
+
+        let notInDeclarationFn = (r:Reference) => {
+            return r.location && declarationRanges.every((x) => {
+                return util.isInRange(r.location.range.start, x) !== 0;
+            });
+        };
+
+        let references = refTable.references(notInDeclarationFn);
+        let docComments = traverser.filter(this._isDocumentComment).map((x) => {
+            return doc.tokenText(<Token>x);
+        }).join('\n');
+
+        let used = helper.useDeclarations.filter((x) => {
+            return this._isUsed(x, references, docComments);
+        }).sort(this._compareUseSymbols);
+
+        let firstRange = declarationRanges[0];
+        let indent = util.whitespace(firstRange.start.character);
+        let lines = this.group ? this._groupedDeclarationText(used) : used.map(this._declarationText);
+        let text = lines.join('\n' + indent);
+        let lastRange = declarationRanges[declarationRanges.length - 1];
+
+        if(text === doc.text.slice(doc.offsetAtPosition(firstRange.start), doc.offsetAtPosition(lastRange.end))) {
+            return edits;
+        }
+
+        if(text) {
+            edits.push(TextEdit.replace(firstRange, text));
+        } else {
+            edits.push(TextEdit.del(this._lineDeletionRange(doc, firstRange)));
+        }
+
+        for(let n = 1, l = declarationRanges.length; n < l; ++n) {
+            edits.push(TextEdit.del(this._lineDeletionRange(doc, declarationRanges[n])));
+        }
+
+        return edits;
+
+    }
+
+    private _isUsed(useSymbol:PhpSymbol, references:Reference[], docComments:string) {
+
+        if(!useSymbol.associated || !useSymbol.associated.length) {
+            return true;
+        }
+
+        const classMask = SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait | SymbolKind.Constructor;
+        let lcFqn = useSymbol.associated[0].name.toLowerCase();
+        let lcPrefix = lcFqn + '\\';
+        let kindMask = useSymbol.kind === SymbolKind.Class ? classMask : useSymbol.kind;
+        let r:Reference;
+        let lcName:string;
+
+        for(let n = 0, l = references.length; n < l; ++n) {
+            r = references[n];
+            lcName = r.name.toLowerCase();
+            if(
+                ((r.kind & kindMask) > 0 && lcName === lcFqn) ||
+                (useSymbol.kind === SymbolKind.Class && lcName.indexOf(lcPrefix) === 0)
+            ) {
+                return true;
+            }
+        }
+
+        //phpdoc types are not references
+        return useSymbol.kind === SymbolKind.Class && 
+            new RegExp('(^|[^\\\\$\\w])' + useSymbol.name + '($|[^\\w])', 'i').test(docComments);
+
+    }
+
+    private _compareUseSymbols = (a:PhpSymbol, b:PhpSymbol) => {
+        let kindDiff = this._kindOrder(a.kind) - this._kindOrder(b.kind);
+        if(kindDiff) {
+            return kindDiff;
+        }
+        let lcA = a.associated[0].name.toLowerCase();
+        let lcB = b.associated[0].name.toLowerCase();
+        return lcA < lcB ? -1 : lcA > lcB ? 1 : 0;
+    }
+
+    private _kindOrder(kind:SymbolKind) {
+        switch(kind) {
+            case SymbolKind.Function:
+                return 1;
+            case SymbolKind.Constant:
+                return 2;
+            default:
+                return 0;
+        }
+    }
+
+    private _kindKeyword(kind:SymbolKind) {
+        switch(kind) {
+            case SymbolKind.Function:
+                return 'function ';
+            case SymbolKind.Constant:
+                return 'const ';
+            default:
+                return '';
+        }
+    }
+
+    private _clauseText(useSymbol:PhpSymbol, name:string) {
+        return PhpSymbol.notFqn(name) === useSymbol.name ? name : `${name} as ${useSymbol.name}`;
+    }
+
+    private _declarationText = (useSymbol:PhpSymbol) => {
+        return `use ${this._kindKeyword(useSymbol.kind)}${this._clauseText(useSymbol, useSymbol.associated[0].name)};`;
+    }
+
+    /**
+     * Consecutive declarations of the same kind and namespace are merged into a group clause.
+     * Symbols should be sorted.
+     * @param useSymbols 
+     */
+    private _groupedDeclarationText(useSymbols:PhpSymbol[]) {
+
+        let lines:string[] = [];
+        let group:PhpSymbol[] = [];
+        let groupPrefix:string;
+        let s:PhpSymbol;
+        let prefix:string;
+
+        let flush = () => {
+            if(group.length === 1 || !groupPrefix) {
+                Array.prototype.push.apply(lines, group.map(this._declarationText));
+            } else if(group.length > 1) {
+                let clauses = group.map((x) => {
+                    return this._clauseText(x, PhpSymbol.notFqn(x.associated[0].name));
+                });
+                lines.push(`use ${this._kindKeyword(group[0].kind)}${groupPrefix}\\{${clauses.join(', ')}};`);
+            }
+            group = [];
+        };
+
+        for(let n = 0, l = useSymbols.length; n < l; ++n) {
+            s = useSymbols[n];
+            prefix = this._namespacePrefix(s.associated[0].name);
+            if(group.length && (group[0].kind !== s.kind || groupPrefix.toLowerCase() !== prefix.toLowerCase())) {
+                flush();
+            }
+            groupPrefix = prefix;
+            group.push(s);
+        }
+
+        flush();
+        return lines;
+
+    }
+
+    private _namespacePrefix(fqn:string) {
+        let pos = fqn.lastIndexOf('\\');
+        return pos < 0 ? '' : fqn.slice(0, pos);
+    }
+
+    /**
+     * Extends range to include the whole line if range is the only content on the line
+     */
+    private _lineDeletionRange(doc:ParsedDocument, range:Range) {
+
+        let startOffset = doc.offsetAtPosition(range.start);
+        let endOffset = doc.offsetAtPosition(range.end);
+        let lineStartOffset = doc.offsetAtPosition(Position.create(range.start.line, 0));
+        let lineEndOffset = doc.text.indexOf('\n', endOffset);
+        lineEndOffset = lineEndOffset < 0 ? doc.text.length : lineEndOffset + 1;
+
+        if(
+            doc.text.slice(lineStartOffset, startOffset).trim() ||
+            doc.text.slice(endOffset, lineEndOffset).trim()
+        ) {
+            return range;
+        }
+
+        return Range.create(doc.positionAtOffset(lineStartOffset), doc.positionAtOffset(lineEndOffset));
+
+    }
+
+    private _isNamespaceDefinition(node:Phrase|Token) {
+        return (<Phrase>node).phraseType === PhraseType.NamespaceDefinition;
+    }
+
+    private _isDocumentComment(node:Phrase|Token) {
+        return (<Token>node).tokenType === TokenType.DocumentComment;
+    }
+
+}
@@ -18,6 +18,7 @@ import * as lsp from 'vscode-languageserver-types';
 import * as util from './util';
 import { TypeAggregate, MemberMergeStrategy } from './typeAggregate';
 import { UseDeclarationHelper } from './useDeclarationHelper';
+import { ComposerAutoload } from './composer';
 
 const noCompletionResponse: lsp.CompletionList = {
     items: [],
@@ -166,6 +167,7 @@ export class CompletionProvider {
     private _maxItems: number;
     private _strategies: CompletionStrategy[];
     private _config: CompletionOptions;
+    private _namespaceDefinitionCompletion: NamespaceDefinitionCompletion;
     private static _defaultConfig: CompletionOptions = defaultCompletionOptions;
 
     constructor(
@@ -175,6 +177,7 @@ export class CompletionProvider {
         config?: CompletionOptions) {
 
         this._config = config ? config : CompletionProvider._defaultConfig;
+        this._namespaceDefinitionCompletion = new NamespaceDefinitionCompletion(this._config, this.symbolStore);
         this._strategies = [
             new ClassTypeDesignatorCompletion(this._config, this.symbolStore),
             new ScopedAccessCompletion(this._config, this.symbolStore),
@@ -184,7 +187,7 @@ export class CompletionProvider {
             new ClassBaseClauseCompletion(this._config, this.symbolStore),
             new InterfaceClauseCompletion(this._config, this.symbolStore),
             new TraitUseClauseCompletion(this._config, this.symbolStore), 
-            new NamespaceDefinitionCompletion(this._config, this.symbolStore),
+            this._namespaceDefinitionCompletion,
             new NamespaceUseClauseCompletion(this._config, this.symbolStore),
             new NamespaceUseGroupClauseCompletion(this._config, this.symbolStore),
             new MethodDeclarationHeaderCompletion(this._config, this.symbolStore),
@@ -201,6 +204,13 @@ export class CompletionProvider {
         }
     }
 
+    /**
+     * Composer autoload mappings used to suggest the namespace of a new file
+     */
+    set autoloads(autoloads: ComposerAutoload[]) {
+        this._namespaceDefinitionCompletion.autoloads = autoloads;
+    }
+
     provideCompletions(uri: string, position: lsp.Position) {
 
         let doc = this.documentStore.find(uri);
@@ -794,8 +804,10 @@ abstract class MemberAccessCompletion implements CompletionStrategy {
 
         //assumed that traverser is on the member scope node
         let node: Phrase;
-        let arrayDereference = 0;
+        //literal keys of subscripts, outermost first; undefined when not a literal
+        let keys: string[] = [];
         let ref: Reference;
+        let isVariableCall = false;
 
         while (true) {
             node = traverser.node as Phrase;
@@ -840,12 +852,13 @@ abstract class MemberAccessCompletion implements CompletionStrategy {
                 case PhraseType.FunctionCallExpression:
                     if (traverser.nthChild(0)) {
                         ref = traverser.reference;
+                        isVariableCall = ref && ref.kind === SymbolKind.Variable;
                     }
                     break;
 
                 case PhraseType.SubscriptExpression:
+                    keys.push(this._subscriptKey(traverser));
                     if (traverser.nthChild(0)) {
-                        arrayDereference++;
                         continue;
                     }
                     break;
@@ -864,8 +877,13 @@ abstract class MemberAccessCompletion implements CompletionStrategy {
         }
 
         let type = this.symbolStore.referenceToTypeString(ref);
-        while (arrayDereference--) {
-            type = TypeString.arrayDereference(type);
+        if (isVariableCall) {
+            let signature = TypeString.callableSignature(type);
+            type = signature ? signature.returnType : '';
+        }
+
+        while (keys.length) {
+            type = TypeString.arrayDereference(type, keys.pop());
         }
 
         return type;
@@ -901,6 +919,22 @@ abstract class MemberAccessCompletion implements CompletionStrategy {
         }
     }
 
+    private _subscriptKey(traverser: ParseTreeTraverser) {
+        let t = <Token>ParsedDocument.findChild(<Phrase>traverser.node, (x) => {
+            return ParsedDocument.isToken(x, [TokenType.StringLiteral, TokenType.IntegerLiteral]);
+        });
+
+        if (!t) {
+            return undefined;
+        } else if (t.tokenType === TokenType.StringLiteral) {
+            return traverser.document.tokenText(t).slice(1, -1);
+        } else if (t.tokenType === TokenType.IntegerLiteral) {
+            return traverser.document.tokenText(t);
+        }
+
+        return undefined;
+    }
+
     private _isMemberName(node: Phrase | Token) {
         return (<Phrase>node).phraseType === PhraseType.MemberName || (<Phrase>node).phraseType === PhraseType.ScopedMemberName;
     }
@@ -1097,6 +1131,8 @@ class TraitUseClauseCompletion extends AbstractNameCompletion {
 
 class NamespaceDefinitionCompletion implements CompletionStrategy {
 
+    autoloads: ComposerAutoload[] = [];
+
     constructor(public config: CompletionOptions, public symbolStore: SymbolStore) { }
 
     canSuggest(traverser: ParseTreeTraverser) {
@@ -1106,9 +1142,32 @@ class NamespaceDefinitionCompletion implements CompletionStrategy {
     completions(traverser: ParseTreeTraverser, word: string) {
 
         let items: lsp.CompletionItem[] = [];
-        let matches = PhpSymbol.unique(this.symbolStore.match(word, this._symbolFilter));
-        let limit = Math.min(matches.length, this.config.maxItems);
-        let isIncomplete = matches.length > this.config.maxItems;
+        let names = new Set<string>();
+        let lcWord = word.toLowerCase();
+
+        //namespaces expected by autoload mappings for this file first
+        let filePath = util.uriToPath(traverser.document.uri);
+        let expected: string[] = [];
+        for (let n = 0, l = this.autoloads.length; n < l; ++n) {
+            Array.prototype.push.apply(expected, this.autoloads[n].namespaces(filePath));
+        }
+        for (let n = 0, l = expected.length; n < l; ++n) {
+            if (expected[n] && expected[n].toLowerCase().indexOf(lcWord) > -1 && !names.has(expected[n])) {
+                names.add(expected[n]);
+                items.push(<lsp.CompletionItem>{
+                    label: expected[n],
+                    kind: lsp.CompletionItemKind.Module,
+                    detail: 'composer autoload',
+                    sortText: '0' + expected[n]
+                });
+            }
+        }
+
+        let matches = PhpSymbol.unique(this.symbolStore.match(word, this._symbolFilter)).filter((x) => {
+            return !names.has(x.name);
+        });
+        let limit = Math.min(matches.length, this.config.maxItems - items.length);
+        let isIncomplete = matches.length > limit;
 
         for (let n = 0; n < limit; ++n) {
             items.push(this._toNamespaceCompletionItem(matches[n]));
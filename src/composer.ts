@@ -0,0 +1,471 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { Log } from './logger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface AutoloadMapping {
+    prefix: string;
+    paths: string[];
+}
+
+/**
+ * A namespace a file should have and the autoload standard that requires it
+ */
+export interface AutoloadNamespace {
+    namespace: string;
+    standard: 'PSR-4' | 'PSR-0';
+}
+
+/**
+ * PSR-4, PSR-0, classmap and files autoload mappings read from composer.json
+ * and vendor/composer/autoload_*.php. All paths are absolute.
+ */
+export class ComposerAutoload {
+
+    private _psr4: AutoloadMapping[];
+    private _psr0: AutoloadMapping[];
+    private _classmap: { [lcFqn: string]: string };
+    private _classmapPaths: string[];
+    private _files: Set<string>;
+    private _vendorDir: string;
+    /**
+     * Built when first needed after mappings change
+     */
+    private _autoloadPathList: string[];
+    private _fileDirs: Set<string>;
+
+    constructor(public rootPath: string, vendorDir?: string) {
+        this._psr4 = [];
+        this._psr0 = [];
+        this._classmap = {};
+        this._classmapPaths = [];
+        this._files = new Set<string>();
+        this._vendorDir = path.resolve(rootPath, vendorDir || 'vendor');
+    }
+
+    get vendorDir() {
+        return this._vendorDir;
+    }
+
+    addPsr4(prefix: string, paths: string[]) {
+        this._addMapping(this._psr4, prefix, paths);
+        this._autoloadPathList = undefined;
+    }
+
+    addPsr0(prefix: string, paths: string[]) {
+        this._addMapping(this._psr0, prefix, paths);
+        this._autoloadPathList = undefined;
+    }
+
+    addClassmap(fqn: string, filePath: string) {
+        this._classmap[fqn.toLowerCase()] = filePath;
+        this.addFile(filePath);
+    }
+
+    /**
+     * Directory or file to be scanned for classes
+     * @param classmapPath
+     */
+    addClassmapPath(classmapPath: string) {
+        this._classmapPaths.push(classmapPath);
+        this._autoloadPathList = undefined;
+    }
+
+    addFile(filePath: string) {
+        this._files.add(path.normalize(filePath));
+        this._fileDirs = undefined;
+    }
+
+    /**
+     * Files outside of the vendor dir are always indexed.
+     * Files inside the vendor dir are indexed when they are within an autoload path.
+     * @param filePath
+     * @param isDirectory
+     */
+    isIndexable(filePath: string, isDirectory: boolean) {
+
+        if (!this._isWithin(filePath, this._vendorDir)) {
+            return true;
+        }
+
+        //classmaps of optimised autoloaders list every vendor class
+        let normalised = path.normalize(filePath);
+        if (isDirectory ? this._autoloadFileDirs().has(normalised) : this._files.has(normalised)) {
+            return true;
+        }
+
+        let autoloadPaths = this._autoloadPaths();
+        let p: string;
+
+        for (let n = 0, l = autoloadPaths.length; n < l; ++n) {
+            p = autoloadPaths[n];
+            if (this._isWithin(filePath, p) || (isDirectory && this._isWithin(p, filePath))) {
+                return true;
+            }
+        }
+
+        return false;
+
+    }
+
+    /**
+     * Resolves to the file that should declare fqn or undefined
+     * @param fqn
+     */
+    classFile(fqn: string) {
+
+        if (!fqn) {
+            return Promise.resolve<string>(undefined);
+        }
+
+        fqn = fqn[0] === '\\' ? fqn.slice(1) : fqn;
+        let filePath = this._classmap[fqn.toLowerCase()];
+        if (filePath) {
+            return Promise.resolve(filePath);
+        }
+
+        //candidates in order of precedence
+        let candidates: string[] = [];
+        let m: AutoloadMapping;
+        for (let n = 0, l = this._psr4.length; n < l; ++n) {
+            m = this._psr4[n];
+            if (fqn.indexOf(m.prefix) === 0) {
+                this._addCandidates(candidates, m.paths, fqn.slice(m.prefix.length).replace(/\\/g, '/') + '.php');
+            }
+        }
+
+        let pos = fqn.lastIndexOf('\\') + 1;
+        let logicalPath = fqn.slice(0, pos).replace(/\\/g, '/') + fqn.slice(pos).replace(/_/g, '/') + '.php';
+        for (let n = 0, l = this._psr0.length; n < l; ++n) {
+            m = this._psr0[n];
+            if (fqn.indexOf(m.prefix) === 0) {
+                this._addCandidates(candidates, m.paths, logicalPath);
+            }
+        }
+
+        return this._firstExistingFile(candidates);
+
+    }
+
+    /**
+     * Namespaces that a class declared in filePath should have according to PSR-4
+     * and namespaced PSR-0 mappings. Empty if filePath is not covered by a mapping.
+     * @param filePath
+     */
+    namespaces(filePath: string) {
+        let namespaces = this.autoloadNamespaces(filePath).map((x) => { return x.namespace; });
+        return namespaces.filter((x, i) => { return namespaces.indexOf(x) === i; });
+    }
+
+    /**
+     * As namespaces but with the standard of the mapping that each namespace comes from
+     * @param filePath
+     */
+    autoloadNamespaces(filePath: string) {
+
+        let namespaces: AutoloadNamespace[] = [];
+        let m: AutoloadMapping;
+        let dir = path.dirname(filePath);
+
+        for (let n = 0, l = this._psr4.length; n < l; ++n) {
+            m = this._psr4[n];
+            for (let k = 0, j = m.paths.length; k < j; ++k) {
+                if (this._isWithin(dir, m.paths[k])) {
+                    this._addNamespace(namespaces, this._joinNamespace(m.prefix, this._relativeNamespace(m.paths[k], dir)), 'PSR-4');
+                }
+            }
+        }
+
+        for (let n = 0, l = this._psr0.length; n < l; ++n) {
+            m = this._psr0[n];
+            if (m.prefix && m.prefix.slice(-1) !== '\\') {
+                //vendor_prefix style classes are not namespaced
+                continue;
+            }
+            for (let k = 0, j = m.paths.length; k < j; ++k) {
+                let ns = this._relativeNamespace(m.paths[k], dir);
+                if (this._isWithin(dir, m.paths[k]) && (ns + '\\').indexOf(m.prefix) === 0) {
+                    this._addNamespace(namespaces, ns, 'PSR-0');
+                }
+            }
+        }
+
+        return namespaces;
+
+    }
+
+    private _addNamespace(namespaces: AutoloadNamespace[], ns: string, standard: 'PSR-4' | 'PSR-0') {
+        if (!namespaces.some((x) => { return x.namespace === ns && x.standard === standard; })) {
+            namespaces.push({ namespace: ns, standard: standard });
+        }
+    }
+
+    private _addMapping(mappings: AutoloadMapping[], prefix: string, paths: string[]) {
+        mappings.push({ prefix: prefix, paths: paths });
+        //longest prefix first
+        mappings.sort((a, b) => { return b.prefix.length - a.prefix.length; });
+    }
+
+    /**
+     * Mapped and classmap scanned directories
+     */
+    private _autoloadPaths() {
+        if (this._autoloadPathList) {
+            return this._autoloadPathList;
+        }
+        let paths: string[] = [];
+        let mappings = this._psr4.concat(this._psr0);
+        for (let n = 0, l = mappings.length; n < l; ++n) {
+            Array.prototype.push.apply(paths, mappings[n].paths);
+        }
+        Array.prototype.push.apply(paths, this._classmapPaths);
+        return this._autoloadPathList = paths;
+    }
+
+    /**
+     * Directories within the vendor dir that contain classmap and autoload files
+     */
+    private _autoloadFileDirs() {
+        if (this._fileDirs) {
+            return this._fileDirs;
+        }
+        let dirs = new Set<string>();
+        let dir: string;
+        this._files.forEach((filePath) => {
+            dir = path.dirname(filePath);
+            while (!dirs.has(dir) && this._isWithin(dir, this._vendorDir) && dir !== path.dirname(dir)) {
+                dirs.add(dir);
+                dir = path.dirname(dir);
+            }
+        });
+        return this._fileDirs = dirs;
+    }
+
+    private _addCandidates(candidates: string[], dirs: string[], relativePath: string) {
+        for (let n = 0, l = dirs.length; n < l; ++n) {
+            candidates.push(path.join(dirs[n], relativePath));
+        }
+    }
+
+    private _firstExistingFile(filePaths: string[]) {
+        let n = 0;
+        let nextFn = (): Promise<string> => {
+            if (n >= filePaths.length) {
+                return Promise.resolve<string>(undefined);
+            }
+            let filePath = filePaths[n++];
+            return new Promise<boolean>((resolve, reject) => {
+                fs.access(filePath, (err) => {
+                    resolve(!err);
+                });
+            }).then((exists) => {
+                return exists ? filePath : nextFn();
+            });
+        };
+        return nextFn();
+    }
+
+    private _relativeNamespace(from: string, to: string) {
+        let relative = path.relative(from, to);
+        return relative ? relative.split(path.sep).join('\\') : '';
+    }
+
+    private _joinNamespace(prefix: string, ns: string) {
+        prefix = prefix.replace(/\\$/, '');
+        return prefix && ns ? prefix + '\\' + ns : prefix || ns;
+    }
+
+    private _isWithin(filePath: string, dir: string) {
+        let relative = path.relative(dir, filePath);
+        return !relative || (relative.slice(0, 2) !== '..' && !path.isAbsolute(relative));
+    }
+
+}
+
+export namespace ComposerAutoload {
+
+    const autoloadKeys = ['autoload', 'autoload-dev'];
+
+    /**
+     * Reads the autoload mappings of the project at rootPath.
+     * Resolves to undefined if there is no composer.json.
+     * @param rootPath
+     */
+    export function read(rootPath: string) {
+
+        return readFile(path.join(rootPath, 'composer.json')).then((text) => {
+
+            if (text === undefined) {
+                return undefined;
+            }
+
+            let json: any;
+            try {
+                json = JSON.parse(text);
+            } catch (e) {
+                Log.warn('composer.json: ' + e.message);
+                json = {};
+            }
+
+            let autoload = new ComposerAutoload(rootPath, json.config ? json.config['vendor-dir'] : undefined);
+            fromComposerJson(autoload, rootPath, json);
+            return fromVendorAutoloadFiles(autoload, rootPath).then(() => {
+                return autoload;
+            });
+
+        });
+
+    }
+
+    /**
+     * Adds the mappings declared in the autoload and autoload-dev sections of a composer.json object
+     * @param autoload
+     * @param basePath directory containing composer.json
+     * @param json
+     */
+    export function fromComposerJson(autoload: ComposerAutoload, basePath: string, json: any) {
+
+        let section: any;
+        let resolveFn = (p: string) => {
+            return path.resolve(basePath, p);
+        };
+
+        for (let n = 0, l = autoloadKeys.length; n < l; ++n) {
+            section = json[autoloadKeys[n]];
+            if (!section) {
+                continue;
+            }
+
+            addNamespaceMappings(section['psr-4'], resolveFn, autoload.addPsr4.bind(autoload));
+            addNamespaceMappings(section['psr-0'], resolveFn, autoload.addPsr0.bind(autoload));
+            toArray(section.classmap).map(resolveFn).forEach((x) => {
+                autoload.addClassmapPath(x);
+            });
+            toArray(section.files).map(resolveFn).forEach((x) => {
+                autoload.addFile(x);
+            });
+        }
+
+    }
+
+    /**
+     * Adds the mappings of the root package and all installed packages
+     * from the files generated by composer dump-autoload
+     * @param autoload
+     * @param rootPath
+     */
+    export function fromVendorAutoloadFiles(autoload: ComposerAutoload, rootPath: string) {
+
+        let composerDir = path.join(autoload.vendorDir, 'composer');
+        let vars: { [index: string]: string } = {
+            vendorDir: autoload.vendorDir,
+            baseDir: rootPath
+        };
+
+        return Promise.all([
+            readFile(path.join(composerDir, 'autoload_psr4.php')),
+            readFile(path.join(composerDir, 'autoload_namespaces.php')),
+            readFile(path.join(composerDir, 'autoload_classmap.php')),
+            readFile(path.join(composerDir, 'autoload_files.php'))
+        ]).then((texts) => {
+
+            let entries = parseAutoloadFile(texts[0], vars);
+            for (let n = 0, l = entries.length; n < l; ++n) {
+                autoload.addPsr4(entries[n][0], entries[n][1]);
+            }
+
+            entries = parseAutoloadFile(texts[1], vars);
+            for (let n = 0, l = entries.length; n < l; ++n) {
+                autoload.addPsr0(entries[n][0], entries[n][1]);
+            }
+
+            entries = parseAutoloadFile(texts[2], vars);
+            for (let n = 0, l = entries.length; n < l; ++n) {
+                autoload.addClassmap(entries[n][0], entries[n][1][0]);
+            }
+
+            entries = parseAutoloadFile(texts[3], vars);
+            for (let n = 0, l = entries.length; n < l; ++n) {
+                autoload.addFile(entries[n][1][0]);
+            }
+
+        });
+
+    }
+
+    const entryPattern = /'((?:[^'\\]|\\.)*)'\s*=>\s*(array\s*\(([^)]*)\)|\$\w+\s*\.\s*'(?:[^'\\]|\\.)*')/g;
+    const pathPattern = /\$(\w+)\s*\.\s*'((?:[^'\\]|\\.)*)'/g;
+
+    /**
+     * Entries of the array returned by a generated autoload_*.php file
+     * as [key, paths] where $vendorDir and $baseDir have been substituted
+     * @param text
+     * @param vars
+     */
+    export function parseAutoloadFile(text: string, vars: { [index: string]: string }) {
+
+        let entries: [string, string[]][] = [];
+        if (!text) {
+            return entries;
+        }
+
+        let match: RegExpExecArray;
+        let pathMatch: RegExpExecArray;
+        let paths: string[];
+        entryPattern.lastIndex = 0;
+
+        while ((match = entryPattern.exec(text))) {
+            paths = [];
+            pathPattern.lastIndex = 0;
+            while ((pathMatch = pathPattern.exec(match[2]))) {
+                if (vars[pathMatch[1]] !== undefined) {
+                    paths.push(path.join(vars[pathMatch[1]], unescape(pathMatch[2])));
+                }
+            }
+            if (paths.length) {
+                entries.push([unescape(match[1]), paths]);
+            }
+        }
+
+        return entries;
+
+    }
+
+    function addNamespaceMappings(mappings: any, resolveFn: (p: string) => string, addFn: (prefix: string, paths: string[]) => void) {
+        if (!mappings) {
+            return;
+        }
+        let keys = Object.keys(mappings);
+        for (let n = 0, l = keys.length; n < l; ++n) {
+            addFn(keys[n], toArray(mappings[keys[n]]).map(resolveFn));
+        }
+    }
+
+    function toArray(value: any): string[] {
+        if (!value) {
+            return [];
+        }
+        return Array.isArray(value) ? value : [value];
+    }
+
+    /**
+     * php single quoted string escapes
+     */
+    function unescape(text: string) {
+        return text.replace(/\\([\\'])/g, '$1');
+    }
+
+    function readFile(filePath: string) {
+        return new Promise<string>((resolve, reject) => {
+            fs.readFile(filePath, (err, data) => {
+                resolve(err ? undefined : data.toString());
+            });
+        });
+    }
+
+}
@@ -5,19 +5,51 @@
 'use strict';
 
 import { ParsedDocument, ParsedDocumentChangeEventArgs } from './parsedDocument';
-import { TreeVisitor, Event, Debounce, Unsubscribe } from './types';
+import { TreeVisitor, Event, Debounce, Unsubscribe, Predicate } from './types';
 import { Phrase, Token, ParseError, tokenTypeToString, PhraseType } from 'php7parser';
+import { SymbolStore } from './symbolStore';
+import { ReferenceStore, Reference } from './reference';
+import { PhpSymbol, SymbolKind, SymbolModifier } from './symbol';
+import { TypeAggregate, MemberMergeStrategy } from './typeAggregate';
+import { TypeString } from './typeString';
+import { ComposerAutoload, AutoloadNamespace } from './composer';
 import * as lsp from 'vscode-languageserver-types';
+import * as util from './util';
+
+export const enum DiagnosticCode {
+    ParseError = 1,
+    UndefinedType = 2,
+    UndefinedFunction = 3,
+    UndefinedConstant = 4,
+    UndefinedMethod = 5,
+    UndefinedProperty = 6,
+    UndefinedClassConstant = 7,
+    NamespaceMismatch = 8
+}
 
 export interface PublishDiagnosticsEventArgs {
     uri: string;
     diagnostics: lsp.Diagnostic[];
 }
 
+/**
+ * Names that resolve as class references in type declarations
+ * or constant references but are not user defined symbols
+ */
+const reservedNames = [
+    'int', 'float', 'bool', 'string', 'iterable', 'void', 'object',
+    'mixed', 'array', 'callable', 'null', 'true', 'false'
+];
+
 export class DiagnosticsProvider {
 
     maxItems: number;
 
+    /**
+     * Composer autoload mappings used to check that declared namespaces match file locations
+     */
+    autoloads: ComposerAutoload[];
+
     private _docs: { [index: string]: ParsedDocument };
     private _debounceWaitTime: number;
     private _publish: Event<PublishDiagnosticsEventArgs>;
@@ -32,7 +64,7 @@ export class DiagnosticsProvider {
         this._publish.trigger({ uri: args.parsedDocument.uri, diagnostics: diagnostics });
     };
 
-    constructor() {
+    constructor(public symbolStore: SymbolStore, public refStore: ReferenceStore) {
         this._debounceWaitTime = 1000;
         this._docs = {};
         this._publish = new Event<PublishDiagnosticsEventArgs>();
@@ -40,6 +72,7 @@ export class DiagnosticsProvider {
         this._debounceMap = {};
         this._unsubscribeMap = {};
         this.maxItems = 100;
+        this.autoloads = [];
     }
 
     get startDiagnosticsEvent() {
@@ -110,12 +143,300 @@ export class DiagnosticsProvider {
             diagnostics.push(this._parseErrorToDiagnostic(parseErrors[n], doc));
         }
 
+        Array.prototype.push.apply(diagnostics, this._undefinedSymbolDiagnostics(uri));
+        Array.prototype.push.apply(diagnostics, this._undefinedMemberDiagnostics(uri));
+        Array.prototype.push.apply(diagnostics, this._namespaceMismatchDiagnostics(uri));
+
         return diagnostics.slice(0, this._maxItems);
 
     }
 
     private _parseErrorToDiagnostic(err: ParseError, doc: ParsedDocument) {
-        return lsp.Diagnostic.create(this._errorRange(err, doc), this._message(err), lsp.DiagnosticSeverity.Error, undefined, 'intelephense');
+        return lsp.Diagnostic.create(this._errorRange(err, doc), this._message(err), lsp.DiagnosticSeverity.Error, DiagnosticCode.ParseError, 'intelephense');
+    }
+
+    /**
+     * Diagnostics for class, interface, trait, function and constant references
+     * that cannot be resolved to a known symbol
+     * @param uri
+     */
+    private _undefinedSymbolDiagnostics(uri: string) {
+
+        let table = this.refStore.getReferenceTable(uri);
+        if (!table) {
+            return [];
+        }
+
+        let diagnostics: lsp.Diagnostic[] = [];
+        let refs = table.references(this._isGlobalSymbolReference);
+        let ref: Reference;
+
+        for (let n = 0, l = refs.length; n < l; ++n) {
+            ref = refs[n];
+            if (ref.kind === SymbolKind.Constructor) {
+                ref = Reference.create(SymbolKind.Class, ref.name, ref.location);
+            }
+            if (this.symbolStore.findSymbolsByReference(ref).length < 1) {
+                diagnostics.push(this._undefinedSymbolDiagnostic(ref));
+            }
+        }
+
+        return diagnostics;
+
+    }
+
+    private _isGlobalSymbolReference = (ref: Reference) => {
+
+        const mask = SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait |
+            SymbolKind.Function | SymbolKind.Constant | SymbolKind.Constructor;
+
+        if (!(ref.kind & mask) || !ref.name || !ref.location) {
+            return false;
+        }
+
+        //self, static and parent
+        if ((ref.kind & (SymbolKind.Class | SymbolKind.Constructor)) > 0 && ref.altName) {
+            return false;
+        }
+
+        return reservedNames.indexOf(PhpSymbol.notFqn(ref.name).toLowerCase()) < 0;
+
+    }
+
+    /**
+     * Diagnostics for method, property and class constant references
+     * where the member cannot be found on a fully resolved receiver type.
+     * Types with magic methods, unresolved types and mixed are skipped.
+     * @param uri
+     */
+    private _undefinedMemberDiagnostics(uri: string) {
+
+        let table = this.refStore.getReferenceTable(uri);
+        if (!table) {
+            return [];
+        }
+
+        let diagnostics: lsp.Diagnostic[] = [];
+        let refs = table.references(this._isMemberReference);
+        let ref: Reference;
+        let types: TypeAggregate[];
+
+        for (let n = 0, l = refs.length; n < l; ++n) {
+            ref = refs[n];
+            types = this._resolvedTypes(ref.scope);
+            if (types.length && !types.some(this._hasMemberPredicate(ref))) {
+                diagnostics.push(this._undefinedMemberDiagnostic(ref));
+            }
+        }
+
+        return diagnostics;
+
+    }
+
+    private _isMemberReference = (ref: Reference) => {
+        return (ref.kind & (SymbolKind.Method | SymbolKind.Property | SymbolKind.ClassConstant)) > 0 &&
+            !!ref.name && !!ref.scope && !!ref.location && ref.name.toLowerCase() !== 'class';
+    }
+
+    /**
+     * Type aggregates for each class in typeString.
+     * Empty if the type is not fully known.
+     * @param typeString
+     */
+    private _resolvedTypes(typeString: string) {
+
+        let classes = TypeString.atomicClassArray(typeString);
+        let nonClassCount = TypeString.count(typeString) - classes.length;
+
+        if (!classes.length || nonClassCount > (/(^|\|)null(\||$)/i.test(typeString) ? 1 : 0)) {
+            return [];
+        }
+
+        let types: TypeAggregate[] = [];
+        let type: TypeAggregate;
+        for (let n = 0, l = classes.length; n < l; ++n) {
+            type = TypeAggregate.create(this.symbolStore, classes[n]);
+            if (!type || !type.isResolved() || this._isDynamicType(type)) {
+                return [];
+            }
+            types.push(type);
+        }
+
+        return types;
+
+    }
+
+    /**
+     * Traits are checked in the context of the using class
+     * and stdClass accepts any property
+     */
+    private _isDynamicType(type: TypeAggregate) {
+        let symbols = Array.isArray(type.type) ? type.type : [type.type];
+        return symbols.some((x) => {
+            return x.kind === SymbolKind.Trait || x.name.toLowerCase() === 'stdclass';
+        });
+    }
+
+    private _hasMemberPredicate(ref: Reference) {
+
+        let lcName = ref.name.toLowerCase();
+        let magic: string[];
+        let fn: Predicate<PhpSymbol>;
+
+        switch (ref.kind) {
+            case SymbolKind.Method:
+                magic = ['__call', '__callstatic'];
+                fn = (x) => {
+                    let lcSymbolName = x.name.toLowerCase();
+                    return x.kind === SymbolKind.Method && (lcSymbolName === lcName || magic.indexOf(lcSymbolName) > -1);
+                };
+                break;
+            case SymbolKind.Property:
+                magic = ['__get', '__set'];
+                fn = (x) => {
+                    return (x.kind === SymbolKind.Property && x.name === ref.name) ||
+                        (x.kind === SymbolKind.Method && magic.indexOf(x.name.toLowerCase()) > -1);
+                };
+                break;
+            default:
+                fn = (x) => {
+                    return x.kind === SymbolKind.ClassConstant && x.name === ref.name;
+                };
+                break;
+        }
+
+        return (type: TypeAggregate) => {
+            return type.members(MemberMergeStrategy.None, fn).length > 0;
+        };
+
+    }
+
+    private _undefinedMemberDiagnostic(ref: Reference) {
+
+        let code: DiagnosticCode;
+        let msg: string;
+
+        switch (ref.kind) {
+            case SymbolKind.Method:
+                code = DiagnosticCode.UndefinedMethod;
+                msg = `Undefined method '${ref.name}'.`;
+                break;
+            case SymbolKind.Property:
+                code = DiagnosticCode.UndefinedProperty;
+                msg = `Undefined property '${ref.name}'.`;
+                break;
+            default:
+                code = DiagnosticCode.UndefinedClassConstant;
+                msg = `Undefined class constant '${ref.name}'.`;
+                break;
+        }
+
+        return lsp.Diagnostic.create(ref.location.range, msg, lsp.DiagnosticSeverity.Error, code, 'intelephense');
+
+    }
+
+    private _undefinedSymbolDiagnostic(ref: Reference) {
+
+        let code: DiagnosticCode;
+        let msg: string;
+
+        switch (ref.kind) {
+            case SymbolKind.Function:
+                code = DiagnosticCode.UndefinedFunction;
+                msg = `Undefined function '${ref.altName || ref.name}'.`;
+                break;
+            case SymbolKind.Constant:
+                code = DiagnosticCode.UndefinedConstant;
+                msg = `Undefined constant '${ref.altName || ref.name}'.`;
+                break;
+            default:
+                code = DiagnosticCode.UndefinedType;
+                msg = `Undefined type '${ref.name}'.`;
+                break;
+        }
+
+        return lsp.Diagnostic.create(ref.location.range, msg, lsp.DiagnosticSeverity.Error, code, 'intelephense');
+
+    }
+
+    /**
+     * Diagnostics for classes, interfaces and traits declared in a namespace
+     * that does not match the PSR-4 or PSR-0 location of the file
+     * @param uri
+     */
+    private _namespaceMismatchDiagnostics(uri: string) {
+
+        let symbolTable = this.symbolStore.getSymbolTable(uri);
+        if (!symbolTable) {
+            return [];
+        }
+
+        let filePath = util.uriToPath(uri);
+        let mapped: AutoloadNamespace[] = [];
+        for (let n = 0, l = this.autoloads.length; n < l; ++n) {
+            Array.prototype.push.apply(mapped, this.autoloads[n].autoloadNamespaces(filePath));
+        }
+
+        if (!mapped.length) {
+            return [];
+        }
+
+        let expected: string[] = [];
+        let standards: string[] = [];
+        for (let n = 0, l = mapped.length; n < l; ++n) {
+            if (expected.indexOf(mapped[n].namespace) < 0) {
+                expected.push(mapped[n].namespace);
+            }
+            if (standards.indexOf(mapped[n].standard) < 0) {
+                standards.push(mapped[n].standard);
+            }
+        }
+
+        let lcExpected = expected.map((x) => { return x.toLowerCase(); });
+        let symbols = symbolTable.filter(this._isNamedClassLike);
+        let diagnostics: lsp.Diagnostic[] = [];
+        let s: PhpSymbol;
+        let ns: string;
+
+        for (let n = 0, l = symbols.length; n < l; ++n) {
+            s = symbols[n];
+            ns = PhpSymbol.namespace(s.name);
+            if (lcExpected.indexOf(ns.toLowerCase()) < 0) {
+                diagnostics.push(lsp.Diagnostic.create(
+                    this._declarationNameRange(uri, s),
+                    `Namespace '${ns}' does not match the ${standards.join(' or ')} location of this file. Expected '${expected.join("' or '")}'.`,
+                    lsp.DiagnosticSeverity.Warning,
+                    DiagnosticCode.NamespaceMismatch,
+                    'intelephense'
+                ));
+            }
+        }
+
+        return diagnostics;
+
+    }
+
+    private _isNamedClassLike(s: PhpSymbol) {
+        return (s.kind & (SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait)) > 0 &&
+            !(s.modifiers & SymbolModifier.Anonymous) && !!s.location;
+    }
+
+    /**
+     * The range of the declaration name reference or the first line of the declaration
+     * @param uri
+     * @param s
+     */
+    private _declarationNameRange(uri: string, s: PhpSymbol) {
+
+        let start = s.location.range.start;
+        let table = this.refStore.getReferenceTable(uri);
+        let ref = table ? table.references((x) => {
+            return x.kind === s.kind && x.name === s.name && !!x.location &&
+                util.isInRange(x.location.range.start, s.location.range) === 0;
+        }).shift() : undefined;
+
+        return ref ? ref.location.range : lsp.Range.create(start, lsp.Position.create(start.line, start.character + 1));
+
     }
 
     private _message(err:ParseError) {
@@ -13,9 +13,49 @@ interface FormatRule {
     (previous: Token, doc: ParsedDocument, indentText: string, indentUnit: string): lsp.TextEdit;
 }
 
+/**
+ * Named set of layout rules applied by FormatProvider
+ */
+export interface FormatProfile {
+    name: string;
+    /**
+     * Opening brace of named class, interface and trait bodies on its own line
+     */
+    classBraceOnNewLine: boolean;
+    /**
+     * Opening brace of function and method bodies on its own line
+     * unless the parameter list spans multiple lines
+     */
+    functionBraceOnNewLine: boolean;
+    /**
+     * Opening brace of control structure bodies on its own line.
+     * When false else, elseif, catch, finally and do-while follow the closing brace on the same line.
+     */
+    controlStructureBraceOnNewLine: boolean;
+    blankLineAfterNamespace: boolean;
+    blankLineAfterUseBlock: boolean;
+    oneStatementPerLine: boolean;
+}
+
+export namespace FormatProfile {
+
+    export const psr12: FormatProfile = {
+        name: 'PSR-12',
+        classBraceOnNewLine: true,
+        functionBraceOnNewLine: true,
+        controlStructureBraceOnNewLine: false,
+        blankLineAfterNamespace: true,
+        blankLineAfterUseBlock: true,
+        oneStatementPerLine: true
+    };
+
+}
+
 export class FormatProvider {
 
-    private static blkLinePattern = /^(\r\n|\r|\n){2}$/;
+    private static newLinePattern = /^(\r\n|\r|\n)$/;
+
+    profile = FormatProfile.psr12;
 
     constructor(public docStore: ParsedDocumentStore) { }
 
@@ -27,7 +67,7 @@ export class FormatProvider {
             return [];
         }
 
-        let visitor = new FormatVisitor(parsedDoc, formatOptions);
+        let visitor = new FormatVisitor(parsedDoc, formatOptions, this.profile);
         parsedDoc.traverse(visitor);
         let edits = visitor.edits;
         let text = parsedDoc.text;
@@ -37,18 +77,18 @@ export class FormatProvider {
             visitor.firstToken.tokenType === TokenType.OpenTag &&
             visitor.OpenTagCount === 1
         ) {
-            //must omit close tag if php only and end in blank line
+            //must omit close tag if php only and end in a single new line
             let closeTagIndex = visitor.last3Tokens.findIndex(this._isCloseTag);
             let endEdit: lsp.TextEdit;
             let lastToken = visitor.last3Tokens.length ? visitor.last3Tokens[visitor.last3Tokens.length - 1] : undefined;
             let lastTokenText = parsedDoc.tokenText(lastToken);
 
             if (closeTagIndex < 0) {
-                //last token should be \n\n
-                if (lastToken && lastToken.tokenType === TokenType.Whitespace && lastTokenText.search(FormatProvider.blkLinePattern) < 0) {
-                    endEdit = lsp.TextEdit.replace(parsedDoc.tokenRange(lastToken), '\n\n');
+                //last token should be \n
+                if (lastToken && lastToken.tokenType === TokenType.Whitespace && lastTokenText.search(FormatProvider.newLinePattern) < 0) {
+                    endEdit = lsp.TextEdit.replace(parsedDoc.tokenRange(lastToken), '\n');
                 } else if (lastToken && lastToken.tokenType !== TokenType.Whitespace) {
-                    endEdit = lsp.TextEdit.insert(parsedDoc.tokenRange(lastToken).end, '\n\n');
+                    endEdit = lsp.TextEdit.insert(parsedDoc.tokenRange(lastToken).end, '\n');
                 }
             } else if (closeTagIndex > 0 && (lastToken.tokenType === TokenType.CloseTag || (lastToken.tokenType === TokenType.Text && !lastTokenText.trim()))) {
                 let tokenBeforeClose = visitor.last3Tokens[closeTagIndex - 1];
@@ -58,7 +98,7 @@ export class FormatProvider {
                 } else {
                     replaceStart = parsedDoc.tokenRange(visitor.last3Tokens[closeTagIndex]).start;
                 }
-                endEdit = lsp.TextEdit.replace({ start: replaceStart, end: parsedDoc.tokenRange(lastToken).end }, '\n\n');
+                endEdit = lsp.TextEdit.replace({ start: replaceStart, end: parsedDoc.tokenRange(lastToken).end }, '\n');
                 if (edits.length) {
                     let lastEdit = edits[edits.length - 1];
                     if (lastEdit.range.end.line > endEdit.range.start.line ||
@@ -86,7 +126,7 @@ export class FormatProvider {
             return [];
         }
 
-        let visitor = new FormatVisitor(parsedDoc, formatOptions, range);
+        let visitor = new FormatVisitor(parsedDoc, formatOptions, this.profile, range);
         parsedDoc.traverse(visitor);
         return visitor.edits;
 
@@ -129,6 +169,7 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
     constructor(
         public doc: ParsedDocument,
         public formatOptions: lsp.FormattingOptions,
+        public profile: FormatProfile,
         range?: lsp.Range) {
         this._edits = [];
         this._isMultilineCommaDelimitedListStack = [];
@@ -154,7 +195,11 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
 
             //newline indent before {
             case PhraseType.FunctionDeclarationBody:
-                if (parent.phraseType === PhraseType.AnonymousFunctionCreationExpression || this._lastParameterListWasMultiLine) {
+                if (
+                    parent.phraseType === PhraseType.AnonymousFunctionCreationExpression ||
+                    this._lastParameterListWasMultiLine ||
+                    !this.profile.functionBraceOnNewLine
+                ) {
                     this._nextFormatRule = FormatVisitor.singleSpaceBefore;
                     this._lastParameterListWasMultiLine = false;
                 } else {
@@ -163,7 +208,7 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 return true;
 
             case PhraseType.MethodDeclarationBody:
-                if(this._lastParameterListWasMultiLine) {
+                if(this._lastParameterListWasMultiLine || !this.profile.functionBraceOnNewLine) {
                     this._nextFormatRule = FormatVisitor.singleSpaceBefore;
                     this._lastParameterListWasMultiLine = false;
                 } else {
@@ -173,9 +218,16 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 return true;
 
             case PhraseType.ClassDeclarationBody:
+                if (parent.phraseType === PhraseType.AnonymousClassDeclaration || !this.profile.classBraceOnNewLine) {
+                    this._nextFormatRule = FormatVisitor.singleSpaceBefore;
+                } else {
+                    this._nextFormatRule = FormatVisitor.newlineIndentBefore;
+                }
+                return true;
+
             case PhraseType.TraitDeclarationBody:
             case PhraseType.InterfaceDeclarationBody:
-                this._nextFormatRule = FormatVisitor.newlineIndentBefore;
+                this._nextFormatRule = this.profile.classBraceOnNewLine ? FormatVisitor.newlineIndentBefore : FormatVisitor.singleSpaceBefore;
                 return true;
 
             //comma delim lists
@@ -282,7 +334,9 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 return false;
 
             case TokenType.DocumentComment:
-                rule = FormatVisitor.newlineIndentBefore;
+                if (rule !== FormatVisitor.doubleNewlineIndentBefore) {
+                    rule = FormatVisitor.newlineIndentBefore;
+                }
                 break;
 
             case TokenType.PlusPlus:
@@ -298,7 +352,13 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 break;
 
             case TokenType.Backslash:
-                if (parent.phraseType === PhraseType.NamespaceName) {
+                if (parent.phraseType === PhraseType.NamespaceName || parent.phraseType === PhraseType.NamespaceUseDeclaration) {
+                    rule = FormatVisitor.noSpaceBefore;
+                }
+                break;
+
+            case TokenType.Equals:
+                if (parent.phraseType === PhraseType.DeclareDirective) {
                     rule = FormatVisitor.noSpaceBefore;
                 }
                 break;
@@ -316,12 +376,16 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 if(previousNonWsToken && previousNonWsToken.tokenType === TokenType.Dollar) {
                     rule = FormatVisitor.noSpaceBefore;
                 } else if(!rule) {
-                    rule = FormatVisitor.singleSpaceBefore;
+                    rule = this._controlStructureBraceRule(parent);
                 }
                 break;
 
             case TokenType.Colon:
-                if(parent.phraseType === PhraseType.CaseStatement || parent.phraseType === PhraseType.DefaultStatement) {
+                if(
+                    parent.phraseType === PhraseType.CaseStatement ||
+                    parent.phraseType === PhraseType.DefaultStatement ||
+                    parent.phraseType === PhraseType.ReturnType
+                ) {
                     rule = FormatVisitor.noSpaceBefore;
                 }
                 break;
@@ -338,7 +402,7 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
             case TokenType.Else:
             case TokenType.ElseIf:
                 if (previousNonWsToken && previousNonWsToken.tokenType === TokenType.CloseBrace) {
-                    rule = FormatVisitor.singleSpaceBefore;
+                    rule = this._afterCloseBraceRule();
                 }
                 break;
 
@@ -350,12 +414,13 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
 
             case TokenType.While:
                 if (parent.phraseType === PhraseType.DoStatement) {
-                    rule = FormatVisitor.singleSpaceBefore;
+                    rule = this._afterCloseBraceRule();
                 }
                 break;
 
             case TokenType.Catch:
-                rule = FormatVisitor.singleSpaceBefore;
+            case TokenType.Finally:
+                rule = this._afterCloseBraceRule();
                 break;
 
             case TokenType.Arrow:
@@ -397,7 +462,8 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 if (
                     parent.phraseType === PhraseType.SubscriptExpression ||
                     parent.phraseType === PhraseType.EncapsulatedExpression ||
-                    parent.phraseType === PhraseType.EncapsulatedVariable
+                    parent.phraseType === PhraseType.EncapsulatedVariable ||
+                    parent.phraseType === PhraseType.NamespaceUseDeclaration
                 ) {
                     rule = FormatVisitor.noSpaceBefore;
                 } else {
@@ -472,11 +538,13 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 return;
 
             case PhraseType.NamespaceDefinition:
-                this._nextFormatRule = FormatVisitor.doubleNewlineIndentBefore;
+                if (this.profile.blankLineAfterNamespace) {
+                    this._nextFormatRule = FormatVisitor.doubleNewlineIndentBefore;
+                }
                 return;
 
             case PhraseType.NamespaceUseDeclaration:
-                if (this._isLastNamespaceUseDeclaration(parent, <Phrase>node)) {
+                if (this.profile.blankLineAfterUseBlock && this._isLastNamespaceUseDeclaration(parent, <Phrase>node)) {
                     this._nextFormatRule = FormatVisitor.doubleNewlineIndentBefore;
                 }
                 return;
@@ -550,7 +618,7 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 break;
 
             case TokenType.OpenBrace:
-                if (parent.phraseType === PhraseType.EncapsulatedExpression) {
+                if (parent.phraseType === PhraseType.EncapsulatedExpression || parent.phraseType === PhraseType.NamespaceUseDeclaration) {
                     this._nextFormatRule = FormatVisitor.noSpaceBefore;
                 } else {
                     this._nextFormatRule = FormatVisitor.newlineIndentBefore;
@@ -562,7 +630,8 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
             case TokenType.CloseBrace:
                 if (parent.phraseType !== PhraseType.EncapsulatedVariable &&
                     parent.phraseType !== PhraseType.EncapsulatedExpression &&
-                    parent.phraseType !== PhraseType.SubscriptExpression
+                    parent.phraseType !== PhraseType.SubscriptExpression &&
+                    parent.phraseType !== PhraseType.NamespaceUseDeclaration
                 ) {
                     this._nextFormatRule = FormatVisitor.newlineIndentBefore;
                 }
@@ -571,8 +640,10 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
             case TokenType.Semicolon:
                 if (parent.phraseType === PhraseType.ForStatement) {
                     this._nextFormatRule = FormatVisitor.singleSpaceBefore;
-                } else {
+                } else if (this.profile.oneStatementPerLine) {
                     this._nextFormatRule = FormatVisitor.newlineIndentBefore;
+                } else {
+                    this._nextFormatRule = FormatVisitor.singleSpaceOrNewlineIndentBefore;
                 }
                 break;
 
@@ -597,6 +668,18 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
                 }
                 break;
 
+            case TokenType.Question:
+                if (parent.phraseType === PhraseType.TypeDeclaration) {
+                    this._nextFormatRule = FormatVisitor.noSpaceBefore;
+                }
+                break;
+
+            case TokenType.Equals:
+                if (parent.phraseType === PhraseType.DeclareDirective) {
+                    this._nextFormatRule = FormatVisitor.noSpaceBefore;
+                }
+                break;
+
             case TokenType.PlusPlus:
                 if (parent.phraseType === PhraseType.PrefixIncrementExpression) {
                     this._nextFormatRule = FormatVisitor.noSpaceBefore;
@@ -694,6 +777,20 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
             keywords.indexOf(this.doc.tokenText(node).toLowerCase()) > -1;
     }
 
+    private _controlStructureBraceRule(parent: Phrase) {
+        if (
+            this.profile.controlStructureBraceOnNewLine &&
+            (parent.phraseType === PhraseType.CompoundStatement || parent.phraseType === PhraseType.SwitchStatement)
+        ) {
+            return FormatVisitor.newlineIndentBefore;
+        }
+        return FormatVisitor.singleSpaceBefore;
+    }
+
+    private _afterCloseBraceRule() {
+        return this.profile.controlStructureBraceOnNewLine ? FormatVisitor.newlineIndentBefore : FormatVisitor.singleSpaceBefore;
+    }
+
     private _formatDocBlock(node: Token) {
         let text = this.doc.tokenText(node);
         let formatted = text.replace(FormatVisitor._docBlockRegex, '\n' + this._indentText + ' *');
@@ -759,6 +856,7 @@ class FormatVisitor implements TreeVisitor<Phrase | Token> {
             case PhraseType.PrintIntrinsic:
             case PhraseType.UnsetIntrinsic:
             case PhraseType.ArrayCreationExpression:
+            case PhraseType.DeclareStatement:
             case PhraseType.FunctionDeclarationHeader:
             case PhraseType.MethodDeclarationHeader:
             case PhraseType.ObjectCreationExpression:
@@ -47,6 +47,7 @@ export class HoverProvider {
                 let symbolDeclaration = '<?php\n' + [
                     this.modifiersToString(symbol.modifiers),
                     symbol.name + PhpSymbol.signatureString(symbol),
+                    symbol.modifiers & SymbolModifier.Inferred ? '/* inferred */' : ''
                 ].join(' ').trim();
                 let hoverTexts: MarkedString[] = [];
 
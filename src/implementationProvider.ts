@@ -0,0 +1,84 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { Location, Position } from 'vscode-languageserver-types';
+import { PhpSymbol, SymbolKind, SymbolModifier } from './symbol';
+import { SymbolStore } from './symbolStore';
+import { ParsedDocumentStore } from './parsedDocument';
+import { MemberMergeStrategy } from './typeAggregate';
+import { ReferenceStore, Reference } from './reference';
+
+export class ImplementationProvider {
+
+    constructor(public symbolStore: SymbolStore, public documentStore: ParsedDocumentStore, public refStore: ReferenceStore) { }
+
+    /**
+     * Concrete classes that extend or implement the type at position
+     * or concrete methods that override or implement the method at position
+     * @param uri 
+     * @param position 
+     */
+    provideImplementations(uri: string, position: Position) {
+
+        let table = this.refStore.getReferenceTable(uri);
+        let ref = table ? table.referenceAtPosition(position) : undefined;
+
+        if (!ref) {
+            return [];
+        }
+
+        if (ref.kind === SymbolKind.Constructor) {
+            ref = Reference.create(SymbolKind.Class, ref.name, ref.location);
+        }
+
+        let symbols = this.symbolStore.findSymbolsByReference(ref, MemberMergeStrategy.Override);
+        let implementations = new Set<PhpSymbol>();
+        let s: PhpSymbol;
+
+        for (let n = 0, l = symbols.length; n < l; ++n) {
+            s = symbols[n];
+            if (PhpSymbol.isClassLike(s)) {
+                this.symbolStore.findSubtypes(s.name).forEach((x) => {
+                    if (this._isConcreteClass(x)) {
+                        implementations.add(x);
+                    }
+                });
+            } else if (s.kind === SymbolKind.Method) {
+                if (this._isConcreteMethod(s)) {
+                    implementations.add(s);
+                }
+                this.symbolStore.findOverrides(s).forEach((x) => {
+                    if (this._isConcreteMethod(x)) {
+                        implementations.add(x);
+                    }
+                });
+            }
+        }
+
+        let locations: Location[] = [];
+        let loc: Location;
+        implementations.forEach((x) => {
+            if (x.location && (loc = this.symbolStore.symbolLocation(x))) {
+                locations.push(loc);
+            }
+        });
+
+        return locations;
+
+    }
+
+    private _isConcreteClass(s: PhpSymbol) {
+        return s.kind === SymbolKind.Class && !(s.modifiers & SymbolModifier.Abstract);
+    }
+
+    private _isConcreteMethod(s: PhpSymbol) {
+        let isInterfaceFn = (x: PhpSymbol) => {
+            return x.kind === SymbolKind.Interface;
+        };
+        return !(s.modifiers & SymbolModifier.Abstract) && !this.symbolStore.find(s.scope, isInterfaceFn).length;
+    }
+
+}
@@ -0,0 +1,148 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { parentPort } from 'worker_threads';
+import { TextDocumentItem } from 'vscode-languageserver-types';
+import { ParsedDocument } from './parsedDocument';
+import { SymbolStore, SymbolTable } from './symbolStore';
+import { ReferenceReader } from './referenceReader';
+import { ReferenceTable, Scope } from './reference';
+import { PhpSymbol } from './symbol';
+
+/**
+ * A SymbolTable or ReferenceTable as posted between threads
+ */
+export interface TableData<T> {
+    _uri: string;
+    _root: T;
+}
+
+/**
+ * Parse and discover symbols or references of a document.
+ * The worker responds with an IndexTaskResult of the same id.
+ */
+export interface IndexTask {
+    kind: 'symbols' | 'references';
+    id: number;
+    textDocument: TextDocumentItem;
+}
+
+/**
+ * Adds or removes symbol tables the worker uses to resolve references
+ */
+export interface SymbolTableSync {
+    kind: 'add' | 'remove';
+    tables?: TableData<PhpSymbol>[];
+    uris?: string[];
+}
+
+export interface IndexTaskResult {
+    id: number;
+    /**
+     * The SymbolTable of the document. For references tasks this includes
+     * the return types inferred during discovery.
+     */
+    symbolTable?: TableData<PhpSymbol>;
+    referenceTable?: TableData<Scope>;
+    error?: string;
+}
+
+/**
+ * Runs in a worker thread. Holds a copy of the symbols needed to resolve references.
+ * Tables discovered by other workers or known to the main thread are sent as SymbolTableSync messages.
+ */
+export namespace IndexWorker {
+
+    let symbolStore: SymbolStore;
+
+    /**
+     * The serialisable form of a SymbolTable
+     * @param table
+     */
+    export function symbolTableData(table: SymbolTable): TableData<PhpSymbol> {
+        return table ? { _uri: table.uri, _root: table.root } : undefined;
+    }
+
+    /**
+     * The serialisable form of a ReferenceTable
+     * @param table
+     */
+    export function referenceTableData(table: ReferenceTable): TableData<Scope> {
+        return table ? { _uri: table.uri, _root: table.root } : undefined;
+    }
+
+    export function listen() {
+        symbolStore = new SymbolStore();
+        symbolStore.add(SymbolTable.readBuiltInSymbols());
+        parentPort.on('message', onMessage);
+    }
+
+    function onMessage(msg: IndexTask | SymbolTableSync) {
+        switch (msg.kind) {
+            case 'add':
+                add(<SymbolTableSync>msg);
+                break;
+            case 'remove':
+                remove(<SymbolTableSync>msg);
+                break;
+            case 'symbols':
+            case 'references':
+                parentPort.postMessage(run(<IndexTask>msg));
+                break;
+            default:
+                break;
+        }
+    }
+
+    function add(msg: SymbolTableSync) {
+        let tables = msg.tables || [];
+        for (let n = 0, l = tables.length; n < l; ++n) {
+            symbolStore.add(new SymbolTable(tables[n]._uri, tables[n]._root));
+        }
+    }
+
+    function remove(msg: SymbolTableSync) {
+        let uris = msg.uris || [];
+        for (let n = 0, l = uris.length; n < l; ++n) {
+            symbolStore.remove(uris[n]);
+        }
+    }
+
+    function run(task: IndexTask): IndexTaskResult {
+
+        try {
+            let doc = task.textDocument;
+            let parsedDocument = new ParsedDocument(doc.uri, doc.text, doc.version);
+            if (task.kind === 'symbols') {
+                return { id: task.id, symbolTable: symbolTableData(discoverSymbols(parsedDocument)) };
+            }
+            if (!symbolStore.getSymbolTable(doc.uri)) {
+                discoverSymbols(parsedDocument);
+            }
+            let refTable = ReferenceReader.discoverReferences(parsedDocument, symbolStore);
+            return {
+                id: task.id,
+                referenceTable: referenceTableData(refTable),
+                symbolTable: symbolTableData(symbolStore.getSymbolTable(doc.uri))
+            };
+        } catch (e) {
+            return { id: task.id, error: e && e.message ? e.message : String(e) };
+        }
+
+    }
+
+    function discoverSymbols(parsedDocument: ParsedDocument) {
+        let symbolTable = SymbolTable.create(parsedDocument, true);
+        symbolTable.pruneScopedVars();
+        symbolStore.add(symbolTable);
+        return symbolTable;
+    }
+
+}
+
+if (parentPort) {
+    IndexWorker.listen();
+}
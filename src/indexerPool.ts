@@ -0,0 +1,258 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { TextDocumentItem } from 'vscode-languageserver-types';
+import { Worker } from 'worker_threads';
+import { SymbolTable } from './symbolStore';
+import { ReferenceTable } from './reference';
+import { IndexTask, IndexTaskResult, SymbolTableSync, IndexWorker } from './indexWorker';
+import { Log } from './logger';
+import * as path from 'path';
+
+let workerThreads: any;
+try {
+    workerThreads = require('worker_threads');
+} catch (e) {
+    workerThreads = undefined;
+}
+
+interface PendingTask {
+    task: IndexTask;
+    resolve: (result: IndexTaskResult) => void;
+    reject: (reason: any) => void;
+}
+
+/**
+ * References of a document and its SymbolTable with inferred return types
+ */
+export interface DiscoveredReferences {
+    referenceTable: ReferenceTable;
+    symbolTable: SymbolTable;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    running: PendingTask;
+}
+
+/**
+ * Parses and discovers symbols and references of documents in worker threads
+ * so that the main thread remains free to answer requests.
+ * Workers are started when work is queued and are sent the known symbol tables once.
+ * Running workers are then kept in sync with the changed tables only.
+ */
+export class IndexerPool {
+
+    private _workers: PoolWorker[];
+    private _queue: PendingTask[];
+    private _nextId: number;
+    private _idleTimer: any;
+
+    /**
+     * Milliseconds without work before workers are terminated.
+     * 0 keeps workers running so that they are not sent all tables again on restart.
+     */
+    idleTimeout = 0;
+
+    /**
+     * Tables sent to a worker when it starts so that it can resolve references
+     * to symbols discovered elsewhere
+     */
+    symbolTablesFn: () => SymbolTable[];
+
+    constructor(public size: number) {
+        this._workers = [];
+        this._queue = [];
+        this._nextId = 1;
+    }
+
+    get workerCount() {
+        return this._workers.length;
+    }
+
+    discoverSymbols(textDocument: TextDocumentItem) {
+        return this._run('symbols', textDocument).then((result) => {
+            return new SymbolTable(result.symbolTable._uri, result.symbolTable._root);
+        });
+    }
+
+    discoverReferences(textDocument: TextDocumentItem) {
+        return this._run('references', textDocument).then((result) => {
+            return <DiscoveredReferences>{
+                referenceTable: new ReferenceTable(result.referenceTable._uri, result.referenceTable._root),
+                symbolTable: result.symbolTable ? new SymbolTable(result.symbolTable._uri, result.symbolTable._root) : undefined
+            };
+        });
+    }
+
+    /**
+     * Adds or replaces tables in running workers
+     * @param tables
+     */
+    addSymbolTables(tables: SymbolTable[]) {
+        this._broadcast({ kind: 'add', tables: tables.map(IndexWorker.symbolTableData) });
+    }
+
+    /**
+     * Removes tables from running workers
+     * @param uris
+     */
+    removeSymbolTables(uris: string[]) {
+        this._broadcast({ kind: 'remove', uris: uris });
+    }
+
+    terminate() {
+        clearTimeout(this._idleTimer);
+        this._idleTimer = undefined;
+        let workers = this._workers;
+        this._workers = [];
+        for (let n = 0, l = workers.length; n < l; ++n) {
+            if (workers[n].running) {
+                workers[n].running.reject('Indexer pool terminated');
+            }
+            workers[n].worker.terminate();
+        }
+        let queue = this._queue;
+        this._queue = [];
+        for (let n = 0, l = queue.length; n < l; ++n) {
+            queue[n].reject('Indexer pool terminated');
+        }
+    }
+
+    private _run(kind: 'symbols' | 'references', textDocument: TextDocumentItem) {
+        return new Promise<IndexTaskResult>((resolve, reject) => {
+            this._queue.push({
+                task: { kind: kind, id: this._nextId++, textDocument: textDocument },
+                resolve: resolve,
+                reject: reject
+            });
+            this._dispatch();
+        });
+    }
+
+    private _dispatch() {
+
+        clearTimeout(this._idleTimer);
+        this._idleTimer = undefined;
+
+        let poolWorker: PoolWorker;
+        while (this._queue.length && (poolWorker = this._idleWorker())) {
+            poolWorker.running = this._queue.shift();
+            poolWorker.worker.postMessage(poolWorker.running.task);
+        }
+
+        if (this.idleTimeout > 0 && !this._queue.length && !this._workers.some((x) => { return !!x.running; })) {
+            this._idleTimer = setTimeout(() => {
+                this.terminate();
+            }, this.idleTimeout);
+            this._idleTimer.unref();
+        }
+
+    }
+
+    private _idleWorker() {
+        let poolWorker = this._workers.find((x) => { return !x.running; });
+        if (!poolWorker && this._workers.length < this.size) {
+            poolWorker = this._start();
+        }
+        return poolWorker;
+    }
+
+    private _start() {
+
+        let worker = IndexerPool.createWorker();
+        let poolWorker: PoolWorker = { worker: worker, running: undefined };
+
+        worker.on('message', (result: IndexTaskResult) => {
+            let pending = poolWorker.running;
+            poolWorker.running = undefined;
+            if (pending && pending.task.id === result.id) {
+                if (result.error) {
+                    pending.reject(result.error);
+                } else {
+                    //symbol tables returned with references are synced by the caller if still current
+                    if (pending.task.kind === 'symbols') {
+                        this._broadcast({ kind: 'add', tables: [result.symbolTable] }, poolWorker);
+                    }
+                    pending.resolve(result);
+                }
+            }
+            this._dispatch();
+        });
+
+        worker.on('error', (err: Error) => {
+            Log.error('Indexer worker: ' + err.message);
+            this._remove(poolWorker, err.message);
+        });
+
+        //eg out of memory. Workers removed by terminate are ignored
+        worker.on('exit', (exitCode: number) => {
+            this._remove(poolWorker, `Indexer worker exited with code ${exitCode}`);
+        });
+
+        let tables = this.symbolTablesFn ? this.symbolTablesFn() : [];
+        if (tables.length) {
+            let sync: SymbolTableSync = { kind: 'add', tables: tables.map(IndexWorker.symbolTableData) };
+            worker.postMessage(sync);
+        }
+
+        this._workers.push(poolWorker);
+        return poolWorker;
+
+    }
+
+    /**
+     * Rejects the task of a worker that stopped. A replacement worker is
+     * started if tasks are queued.
+     * @param poolWorker
+     * @param reason
+     */
+    private _remove(poolWorker: PoolWorker, reason: string) {
+        let index = this._workers.indexOf(poolWorker);
+        if (index < 0) {
+            return;
+        }
+        this._workers.splice(index, 1);
+        if (poolWorker.running) {
+            poolWorker.running.reject(reason);
+            poolWorker.running = undefined;
+        }
+        this._dispatch();
+    }
+
+    private _broadcast(msg: SymbolTableSync, except?: PoolWorker) {
+        for (let n = 0, l = this._workers.length; n < l; ++n) {
+            if (this._workers[n] !== except) {
+                this._workers[n].worker.postMessage(msg);
+            }
+        }
+    }
+
+}
+
+export namespace IndexerPool {
+
+    /**
+     * Worker threads are available in node >= 12
+     */
+    export function isSupported() {
+        return !!workerThreads;
+    }
+
+    /**
+     * Starts a worker running indexWorker. When running from typescript sources
+     * the worker registers ts-node first.
+     */
+    export function createWorker(): Worker {
+        let ext = path.extname(__filename);
+        let script = path.join(__dirname, 'indexWorker' + ext);
+        if (ext === '.ts') {
+            return new workerThreads.Worker(`require('ts-node/register');require(${JSON.stringify(script)});`, { eval: true });
+        }
+        return new workerThreads.Worker(script);
+    }
+
+}
@@ -9,6 +9,7 @@ export class SymbolIndex {
 
     private _nameIndex: NameIndex<PhpSymbol>;
     private _namedSymbolIndex: NameIndex<PhpSymbol>;
+    private _subtypeIndex: NameIndex<PhpSymbol>;
     private _globalVariableIndex: PhpSymbol[] = [];
     private _id: number;
 
@@ -18,6 +19,7 @@ export class SymbolIndex {
         this._id = SymbolIndex.count++;
         this._nameIndex = new NameIndex<PhpSymbol>(SymbolIndex._symbolKeys);
         this._namedSymbolIndex = new NameIndex<PhpSymbol>(SymbolIndex._symbolUri);
+        this._subtypeIndex = new NameIndex<PhpSymbol>(SymbolIndex._associatedKeys);
     }
 
     index(root: PhpSymbol) {
@@ -28,12 +30,36 @@ export class SymbolIndex {
 
         this._nameIndex.addMany(symbolIndexVisitor.nameIndexSymbols);
         this._namedSymbolIndex.addMany(symbolIndexVisitor.namedSymbols);
+        this._subtypeIndex.addMany(symbolIndexVisitor.subtypeSymbols);
         Array.prototype.push.apply(this._globalVariableIndex, symbolIndexVisitor.globalVariables);
     }
 
-    removeMany(uri: string) {
-        this._nameIndex.removeFromKey(uri);
-        this._namedSymbolIndex.removeFromKey(uri);
+    remove(root: PhpSymbol) {
+        let traverser = new TreeTraverser([root]);
+        let symbolIndexVisitor = new SymbolIndexVisitor();
+
+        traverser.traverse(symbolIndexVisitor);
+
+        this._nameIndex.removeMany(symbolIndexVisitor.nameIndexSymbols);
+        if (root.location) {
+            this._namedSymbolIndex.removeFromKey(root.location.uri);
+        }
+        this._subtypeIndex.removeMany(symbolIndexVisitor.subtypeSymbols);
+
+        if (symbolIndexVisitor.globalVariables.length) {
+            let removed = new Set<PhpSymbol>(symbolIndexVisitor.globalVariables);
+            this._globalVariableIndex = this._globalVariableIndex.filter((x) => {
+                return !removed.has(x);
+            });
+        }
+    }
+
+    /**
+     * Class like symbols that directly extend, implement or use fqn
+     * @param fqn 
+     */
+    findSubtypes(fqn: string) {
+        return fqn ? this._subtypeIndex.find(fqn.toLowerCase()) : [];
     }
 
     find(key: string) {
@@ -69,6 +95,14 @@ export class SymbolIndex {
     private static _symbolUri(s: PhpSymbol) {
         return [s.location.uri];
     }
+
+    private static _associatedKeys(s: PhpSymbol) {
+        let keys = new Set<string>();
+        for (let n = 0, l = s.associated ? s.associated.length : 0; n < l; ++n) {
+            keys.add(s.associated[n].name.toLowerCase());
+        }
+        return Array.from(keys);
+    }
 }
 
 export class SymbolIndexVisitor implements TreeVisitor<PhpSymbol> {
@@ -79,6 +113,7 @@ export class SymbolIndexVisitor implements TreeVisitor<PhpSymbol> {
 
     public nameIndexSymbols: PhpSymbol[] = [];
     public namedSymbols: PhpSymbol[] = [];
+    public subtypeSymbols: PhpSymbol[] = [];
     public globalVariables: PhpSymbol[] = [];
 
     preorder(node: PhpSymbol, spine: PhpSymbol[]) {
@@ -86,6 +121,10 @@ export class SymbolIndexVisitor implements TreeVisitor<PhpSymbol> {
             this.nameIndexSymbols.push(node);
         }
 
+        if (SymbolIndexVisitor._isSubtype(node)) {
+            this.subtypeSymbols.push(node);
+        }
+
         if (SymbolIndexVisitor._isNamedSymbol(node) && node.location) {            
             this.namedSymbols.push(node);
         }
@@ -108,8 +147,17 @@ export class SymbolIndexVisitor implements TreeVisitor<PhpSymbol> {
             s.name.length > 0;
     }
 
+    /**
+     * Constants are only included if they are use declarations
+     * @param s 
+     */
     private static _isNamedSymbol(s: PhpSymbol) {
-        return (s.kind & this.NAMED_SYMBOL_KIND_MASK) && !(s.modifiers & this.NAMED_SYMBOL_EXCLUDE_MODIFIERS);
+        return ((s.kind & this.NAMED_SYMBOL_KIND_MASK) || (s.kind === SymbolKind.Constant && (s.modifiers & SymbolModifier.Use))) &&
+            !(s.modifiers & this.NAMED_SYMBOL_EXCLUDE_MODIFIERS);
+    }
+
+    private static _isSubtype(s: PhpSymbol) {
+        return PhpSymbol.isClassLike(s) && !(s.modifiers & SymbolModifier.Use) && s.associated && s.associated.length > 0;
     }
 
     private static _isGlobalVariables(s: PhpSymbol) {
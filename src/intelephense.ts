@@ -9,33 +9,49 @@ import { SymbolStore, SymbolTable } from './symbolStore';
 import { SymbolProvider } from './symbolProvider';
 import { CompletionProvider, CompletionOptions } from './completionProvider';
 import { DiagnosticsProvider, PublishDiagnosticsEventArgs } from './diagnosticsProvider';
-import { Debounce, Unsubscribe } from './types';
+import { Debounce, Unsubscribe, ProgressFn } from './types';
 import { SignatureHelpProvider } from './signatureHelpProvider';
 import { DefinitionProvider } from './definitionProvider';
 import { PhraseType } from 'php7parser';
 import { FormatProvider } from './formatProvider';
 import * as lsp from 'vscode-languageserver-types';
-import { InitializeParams } from 'vscode-languageserver-protocol';
-import { MessageConnection } from 'vscode-jsonrpc';
-import { NameTextEditProvider } from './commands';
+import { InitializeParams, FileEvent, Proposed } from 'vscode-languageserver-protocol';
+import { MessageConnection, CancellationToken } from 'vscode-jsonrpc';
+import { NameTextEditProvider, OrganizeImportsProvider } from './commands';
 import { ReferenceReader } from './referenceReader';
 import { NameResolver } from './nameResolver';
 import { ReferenceProvider } from './referenceProvider';
 import { ReferenceStore, ReferenceTable } from './reference';
-import { createCache, Cache, writeArrayToDisk, readArrayFromDisk } from './cache';
+import { createCache, Cache, WorkspaceFolderCache, writeArrayToDisk, readArrayFromDisk } from './cache';
 import { Log, LogWriter } from './logger';
+import { WorkDoneProgress, ProgressToken } from './progress';
 import * as path from 'path';
 export { LanguageRange } from './parsedDocument';
 import { HoverProvider } from './hoverProvider';
 import { HighlightProvider } from './highlightProvider';
+import { RenameProvider } from './renameProvider';
+import { CodeActionProvider } from './codeActionProvider';
+import { ImplementationProvider } from './implementationProvider';
+import { TypeHierarchyProvider, TypeHierarchyItem } from './typeHierarchyProvider';
+import { CallHierarchyProvider, CallHierarchyItem } from './callHierarchyProvider';
+import { WorkspaceIndexer, WorkspaceFile } from './workspaceIndexer';
+import { IndexerPool } from './indexerPool';
+import { ComposerAutoload } from './composer';
+import { SymbolKind, PhpSymbol } from './symbol';
+import { TypeString } from './typeString';
 import * as os from 'os';
 import * as util from './util';
 import * as fs from 'fs';
+import * as pkg from '../package.json';
 
 export namespace Intelephense {
 
     const phpLanguageId = 'php';
     const dataFolder = '.intelephense';
+    /**
+     * Increment when the cached shape of PhpSymbol, Reference or folder state changes
+     */
+    const cacheSchemaVersion = 3;
 
     let documentStore: ParsedDocumentStore;
     let symbolStore: SymbolStore;
@@ -47,21 +63,33 @@ export namespace Intelephense {
     let definitionProvider: DefinitionProvider;
     let formatProvider: FormatProvider;
     let nameTextEditProvider: NameTextEditProvider;
+    let organizeImportsProvider: OrganizeImportsProvider;
     let referenceProvider: ReferenceProvider;
     let hoverProvider: HoverProvider;
     let highlightProvider: HighlightProvider;
-    let cacheClear = false;
-    let symbolCache: Cache;
-    let refCache: Cache;
-    let stateCache: Cache;
+    let renameProvider: RenameProvider;
+    let codeActionProvider: CodeActionProvider;
+    let implementationProvider: ImplementationProvider;
+    let typeHierarchyProvider: TypeHierarchyProvider;
+    let callHierarchyProvider: CallHierarchyProvider;
+    let workspaceFolders: WorkspaceFolderState[] = [];
+    let symbolCache: WorkspaceFolderCache;
+    let refCache: WorkspaceFolderCache;
+    let fileConfig: FileConfig;
+    let indexWorkspaceEnabled = true;
+    let indexerPool: IndexerPool;
     const stateTimestampKey = 'timestamp';
+    const stateVersionKey = 'version';
     const knownDocsFilename = 'known_uris.json';
     const refStoreCacheKey = 'referenceStore';
 
     let diagnosticsUnsubscribe: Unsubscribe;
-
-    let cacheTimestamp = 0;
-    let storagePath = '';
+    /**
+     * Documents with references resolved against declarations that have since changed
+     */
+    let staleReferenceUris: Set<string>;
+    let staleReferencesDebounce: Debounce<void>;
+    const staleReferencesWait = 1000;
 
     export function onPublishDiagnostics(fn: (args: PublishDiagnosticsEventArgs) => void) {
         if (diagnosticsUnsubscribe) {
@@ -77,80 +105,92 @@ export namespace Intelephense {
 
         if (options.connection) {
             Log.connection = options.connection;
+            WorkDoneProgress.connection = options.connection;
         }
+        let windowCapabilities = <any>(options.capabilities && (<any>options.capabilities).window) || {};
+        WorkDoneProgress.supported = !!windowCapabilities.workDoneProgress;
 
-        storagePath = path.join(os.homedir(), dataFolder, util.md5(options.rootPath));
-        symbolCache = createCache(storagePath ? path.join(storagePath, 'symbols') : undefined);
-        refCache = createCache(storagePath ? path.join(storagePath, 'references'): undefined);
-        stateCache = createCache(storagePath ? path.join(storagePath, 'state'): undefined);
+        workspaceFolders = [];
+        symbolCache = new WorkspaceFolderCache();
+        refCache = new WorkspaceFolderCache();
         documentStore = new ParsedDocumentStore();
         symbolStore = new SymbolStore();
         refStore = new ReferenceStore(refCache);
         symbolProvider = new SymbolProvider(symbolStore);
         completionProvider = new CompletionProvider(symbolStore, documentStore, refStore);
-        diagnosticsProvider = new DiagnosticsProvider();
+        diagnosticsProvider = new DiagnosticsProvider(symbolStore, refStore);
         signatureHelpProvider = new SignatureHelpProvider(symbolStore, documentStore, refStore);
         definitionProvider = new DefinitionProvider(symbolStore, documentStore, refStore);
         formatProvider = new FormatProvider(documentStore);
         nameTextEditProvider = new NameTextEditProvider(symbolStore, documentStore, refStore);
+        organizeImportsProvider = new OrganizeImportsProvider(symbolStore, documentStore, refStore);
         referenceProvider = new ReferenceProvider(documentStore, symbolStore, refStore);
         hoverProvider = new HoverProvider(documentStore, symbolStore, refStore);
         highlightProvider = new HighlightProvider(documentStore, symbolStore, refStore);
+        renameProvider = new RenameProvider(documentStore, symbolStore, refStore, referenceProvider);
+        codeActionProvider = new CodeActionProvider(symbolStore, documentStore, refStore);
+        implementationProvider = new ImplementationProvider(symbolStore, documentStore, refStore);
+        typeHierarchyProvider = new TypeHierarchyProvider(symbolStore, refStore, symbolProvider);
+        callHierarchyProvider = new CallHierarchyProvider(symbolStore, refStore, symbolProvider);
+
+        let initOptions = options.initializationOptions || {};
+        fileConfig = initOptions.file;
+        indexWorkspaceEnabled = initOptions.indexWorkspace !== false;
+        createIndexerPool(initOptions.workers);
+
+        staleReferenceUris = new Set<string>();
+        staleReferencesDebounce = new Debounce<void>(resolveStaleReferences, staleReferencesWait);
 
         //keep stores in sync
         documentStore.parsedDocumentChangeEvent.subscribe((args) => {
+            let uri = args.parsedDocument.uri;
+            let oldSymbolTable = symbolStore.getSymbolTable(uri);
             symbolStore.onParsedDocumentChange(args);
             let refTable = ReferenceReader.discoverReferences(args.parsedDocument, symbolStore);
             refStore.add(refTable);
+            staleReferenceUris.delete(uri);
+            onSymbolTableChange(uri, oldSymbolTable, symbolStore.getSymbolTable(uri), true);
         });
 
-        if (options.initializationOptions && options.initializationOptions.clearCache) {
-            return clearCache().then(() => {
-                symbolStore.add(SymbolTable.readBuiltInSymbols());
-            }).catch((msg) => {
-                Log.error(msg);
-            });
-        } else if(storagePath) {
-            symbolStore.add(SymbolTable.readBuiltInSymbols());
-            return stateCache.read(stateTimestampKey).then((data) => {
-                if (!data) {
-                    return;
-                }
-                cacheTimestamp = data;
-                
-            }).then(()=>{
-                return readArrayFromDisk(path.join(storagePath, 'state', knownDocsFilename));
-            }).then((uris)=>{
-                return readCachedSymbolTables(uris);
-            }).then(() => {
-                return cacheReadReferenceStore();
-            }).catch((msg) => {
-                Log.error(msg);
-            });
-        } else {
-            symbolStore.add(SymbolTable.readBuiltInSymbols());
-            return Promise.resolve();
+        symbolStore.add(SymbolTable.readBuiltInSymbols());
+
+        let folders: Proposed.WorkspaceFolder[] = options.workspaceFolders;
+        if (!folders && options.rootUri) {
+            folders = [{ uri: options.rootUri, name: path.basename(util.uriToPath(options.rootUri)) }];
+        } else if (!folders && options.rootPath) {
+            folders = [{ uri: util.pathToUri(options.rootPath), name: path.basename(options.rootPath) }];
         }
 
+        //caches are read one folder at a time
+        let addNextFn = (): Promise<void> => {
+            let folder = folders && folders.shift();
+            if (!folder) {
+                return Promise.resolve();
+            }
+            return addWorkspaceFolder(folder, initOptions.clearCache).then(addNextFn);
+        };
+
+        return addNextFn();
+
     }
 
     export function shutdown() {
 
-        if(!storagePath) {
-            return;
+        if (indexerPool) {
+            indexerPool.terminate();
         }
 
-        let uris: string[] = [];
-        for (let t of symbolStore.tables) {
-            if (t.uri !== 'php') {
-                uris.push(t.uri);
-            }
+        if (!workspaceFolders.length) {
+            return;
         }
-        return stateCache.write(stateTimestampKey, Date.now()).then(() => {
-            return writeArrayToDisk(uris, path.join(storagePath, 'state', knownDocsFilename)).catch(()=>{});
-        }).then(() => {
-            return cacheWriteReferenceStore();
-        }).then(() => {
+
+        let folders = workspaceFolders.slice(0);
+        let writeNextFn = (): Promise<void> => {
+            let folder = folders.shift();
+            return folder ? writeFolderState(folder).then(writeNextFn) : Promise.resolve();
+        };
+
+        return writeNextFn().then(() => {
             return refStore.closeAll();
         }).then(() => {
             return new Promise<void>((resolve, reject) => {
@@ -178,25 +218,241 @@ export namespace Intelephense {
 
     }
 
+    /**
+     * Adds and removes workspace folders. Added folders are read from cache and indexed.
+     * Removed folders have their state cached and their documents forgotten.
+     * @param event
+     */
+    export function onDidChangeWorkspaceFolders(event: { added: Proposed.WorkspaceFolder[], removed: Proposed.WorkspaceFolder[] }) {
+
+        let removed = (event.removed || []).slice(0);
+        let added = (event.added || []).slice(0);
+
+        let removeNextFn = (): Promise<void> => {
+            let folder = removed.shift();
+            return folder ? removeWorkspaceFolder(folder.uri).then(removeNextFn) : Promise.resolve();
+        };
+
+        let addNextFn = (): Promise<void> => {
+            let folder = added.shift();
+            return folder ? addWorkspaceFolder(folder).then(addNextFn) : Promise.resolve();
+        };
+
+        return removeNextFn().then(addNextFn);
+
+    }
+
+    /**
+     * The uris of the workspace folders currently open
+     */
+    export function workspaceFolderUris() {
+        return workspaceFolders.map((x) => { return x.uri; });
+    }
+
+    function addWorkspaceFolder(workspaceFolder: Proposed.WorkspaceFolder, clear?: boolean) {
+
+        if (findWorkspaceFolder(workspaceFolder.uri)) {
+            return Promise.resolve();
+        }
+
+        let folderPath = util.uriToPath(workspaceFolder.uri);
+        let storagePath = path.join(os.homedir(), dataFolder, util.md5(folderPath));
+        let indexer = indexerPool ?
+            new WorkspaceIndexer(discoverSymbolsInWorker, discoverReferencesInWorker) :
+            new WorkspaceIndexer(discoverSymbols, discoverReferences);
+        indexer.concurrency = indexerPool ? indexerPool.size : 1;
+        indexer.forgetFn = forget;
+        indexer.rootPath = folderPath;
+
+        let folder: WorkspaceFolderState = {
+            uri: workspaceFolder.uri,
+            name: workspaceFolder.name,
+            path: folderPath,
+            storagePath: storagePath,
+            symbolCache: createCache(path.join(storagePath, 'symbols')),
+            refCache: createCache(path.join(storagePath, 'references')),
+            stateCache: createCache(path.join(storagePath, 'state')),
+            cacheTimestamp: 0,
+            indexer: indexer,
+            autoload: undefined,
+            fileConfig: undefined,
+            appliedFileConfig: undefined,
+            indexing: undefined
+        };
+
+        workspaceFolders.push(folder);
+        symbolCache.add(folder.uri, folder.symbolCache);
+        refCache.add(folder.uri, folder.refCache);
+        applyFileConfig(folder);
+
+        let loadCache = clear ? clearCache(folder) : readFolderCache(folder);
+
+        return loadCache.catch((msg) => {
+            Log.error(msg);
+        }).then(() => {
+            return readComposerAutoload(folder);
+        }).then(() => {
+            //not waited on so that requests can be served while checking files
+            if (indexWorkspaceEnabled) {
+                //indexing also checks cached files against the file system
+                indexWorkspace(folder).catch((msg) => {
+                    Log.error(msg);
+                });
+            } else {
+                verifyWorkspace(folder).catch((msg) => {
+                    Log.error(msg);
+                });
+            }
+        });
+
+    }
+
+    function removeWorkspaceFolder(uri: string) {
+
+        let folder = findWorkspaceFolder(uri);
+        if (!folder) {
+            return Promise.resolve();
+        }
+
+        return writeFolderState(folder).then(() => {
+            let uris = folderDocumentUris(folder);
+            let removed: string[] = [];
+            workspaceFolders.splice(workspaceFolders.indexOf(folder), 1);
+            for (let n = 0, l = uris.length; n < l; ++n) {
+                if (!documentStore.has(uris[n])) {
+                    //cache is kept for when the folder is added again
+                    symbolStore.remove(uris[n]);
+                    refStore.remove(uris[n]);
+                    removed.push(uris[n]);
+                }
+            }
+            if (indexerPool && removed.length) {
+                indexerPool.removeSymbolTables(removed);
+            }
+            symbolCache.remove(folder.uri);
+            refCache.remove(folder.uri);
+            updateAutoloads();
+        });
+
+    }
+
+    function findWorkspaceFolder(uri: string) {
+        return util.find(workspaceFolders, (x) => { return x.uri === uri; });
+    }
+
+    /**
+     * The folder with the longest uri that contains uri.
+     * Documents outside all folders belong to the first folder.
+     * @param uri
+     */
+    function documentWorkspaceFolder(uri: string) {
+        let found: WorkspaceFolderState;
+        for (let n = 0, l = workspaceFolders.length; n < l; ++n) {
+            if (uri.indexOf(workspaceFolders[n].uri.replace(/\/?$/, '/')) === 0 && (!found || workspaceFolders[n].uri.length > found.uri.length)) {
+                found = workspaceFolders[n];
+            }
+        }
+        return found || workspaceFolders[0];
+    }
+
+    function folderDocumentUris(folder: WorkspaceFolderState) {
+        let uris: string[] = [];
+        for (let t of symbolStore.tables) {
+            if (t.uri !== 'php' && documentWorkspaceFolder(t.uri) === folder) {
+                uris.push(t.uri);
+            }
+        }
+        return uris;
+    }
+
+    function writeFolderState(folder: WorkspaceFolderState) {
+        let files = folderDocumentUris(folder).map((uri) => {
+            return folder.indexer.files.get(uri) || { uri: uri };
+        });
+        return folder.stateCache.write(stateVersionKey, currentCacheVersion()).then(() => {
+            return folder.stateCache.write(stateTimestampKey, Date.now());
+        }).then(() => {
+            return writeArrayToDisk(files, path.join(folder.storagePath, 'state', knownDocsFilename)).catch(() => { });
+        }).then(() => {
+            return cacheWriteReferenceStore(folder);
+        });
+    }
+
+    function currentCacheVersion(): CacheVersion {
+        return { server: (<any>pkg).version, schema: cacheSchemaVersion };
+    }
+
+    /**
+     * Reads the cached state of folder. The cache is cleared if it was
+     * written with a different schema version. Entries cached by other server versions
+     * with the same schema are kept and checked against the file system when indexing.
+     * @param folder
+     */
+    function readFolderCache(folder: WorkspaceFolderState) {
+        return folder.stateCache.read(stateVersionKey).then((version: CacheVersion) => {
+            let current = currentCacheVersion();
+            if (version && version.schema === current.schema) {
+                if (version.server !== current.server) {
+                    Log.info(`Cache for ${folder.name} was written by server ${version.server}. Checking for stale entries.`);
+                }
+                return true;
+            }
+            if (version) {
+                Log.info(`Cache for ${folder.name} was written with schema ${version.schema}. Clearing.`);
+            }
+            return clearCache(folder).then(() => {
+                return false;
+            });
+        }).then((compatible) => {
+            if (!compatible) {
+                return;
+            }
+            return folder.stateCache.read(stateTimestampKey).then((data) => {
+                if (!data) {
+                    return;
+                }
+                folder.cacheTimestamp = data;
+            }).then(() => {
+                return readArrayFromDisk(path.join(folder.storagePath, 'state', knownDocsFilename));
+            }).then((files: WorkspaceFile[]) => {
+                files = files || [];
+                for (let n = 0, l = files.length; n < l; ++n) {
+                    if (files[n].hash) {
+                        folder.indexer.files.set(files[n].uri, files[n]);
+                    } else if (/^file:/.test(files[n].uri)) {
+                        //verified against the file system by content
+                        folder.indexer.files.set(files[n].uri, { uri: files[n].uri, path: util.uriToPath(files[n].uri), modified: 0, size: 0 });
+                    }
+                }
+                let progress = WorkDoneProgress.begin(`Reading cache of ${folder.name}`);
+                return readCachedSymbolTables(files.map((x) => { return x.uri; }), progress.progressFn).then(() => {
+                    progress.end();
+                });
+            }).then(() => {
+                return cacheReadReferenceStore(folder);
+            });
+        });
+    }
+
     const refStoreTableSummariesFileName = 'ref_store_table_summaries.json';
     const refStoreNameIndexFileName = 'ref_store_name_index.json';
 
-    function cacheWriteReferenceStore() {
-        let data = refStore.toJSON();
+    function cacheWriteReferenceStore(folder: WorkspaceFolderState) {
+        let data = refStore.toJSON().filter((x) => {
+            return x.uri !== 'php' && documentWorkspaceFolder(x.uri) === folder;
+        });
 
         if (data && data.length > 0) {
-            return writeArrayToDisk(data, path.join(storagePath, 'state', refStoreTableSummariesFileName)).catch((e)=>{});
+            return writeArrayToDisk(data, path.join(folder.storagePath, 'state', refStoreTableSummariesFileName)).catch((e)=>{});
         } else {
             return Promise.resolve();
         }
 
     }
 
-    function cacheReadReferenceStore() {
+    function cacheReadReferenceStore(folder: WorkspaceFolderState) {
 
-        let refStoreTables:any[];
-
-        return readArrayFromDisk(path.join(storagePath, 'state', refStoreTableSummariesFileName)).then((items) => {
+        return readArrayFromDisk(path.join(folder.storagePath, 'state', refStoreTableSummariesFileName)).then((items) => {
             if(items && items.length > 0) {
                 refStore.fromJSON(items);
             }
@@ -206,7 +462,7 @@ export namespace Intelephense {
 
     }
 
-    function readCachedSymbolTables(keys: string[]) {
+    function readCachedSymbolTables(keys: string[], progressFn?: ProgressFn) {
 
         if (!keys) {
             return Promise.resolve();
@@ -215,10 +471,20 @@ export namespace Intelephense {
         return new Promise<void>((resolve, reject) => {
 
             let count = keys.length;
+            let total = count;
+            let tables: SymbolTable[] = [];
             if (count < 1) {
                 resolve();
             }
 
+            let onDoneFn = () => {
+                //running workers are not sent the whole store again
+                if (indexerPool && tables.length) {
+                    indexerPool.addSymbolTables(tables);
+                }
+                resolve();
+            };
+
             let batch = Math.min(4, count);
             let onCacheReadErr = (msg: string) => {
                 Log.error(msg);
@@ -226,15 +492,20 @@ export namespace Intelephense {
             }
             let onCacheRead = (data: any) => {
                 --count;
+                if (progressFn) {
+                    progressFn(total - count, total);
+                }
                 if (data) {
-                    symbolStore.add(new SymbolTable(data._uri, data._root));
+                    let symbolTable = new SymbolTable(data._uri, data._root);
+                    symbolStore.add(symbolTable);
+                    tables.push(symbolTable);
                 }
 
                 let uri = keys.pop();
                 if (uri) {
                     symbolCache.read(uri).then(onCacheRead).catch(onCacheReadErr);
                 } else if (count < 1) {
-                    resolve();
+                    onDoneFn();
                 }
             }
 
@@ -247,11 +518,11 @@ export namespace Intelephense {
 
     }
 
-    function clearCache() {
-        return stateCache.flush().then(() => {
-            return refCache.flush();
+    function clearCache(folder: WorkspaceFolderState) {
+        return folder.stateCache.flush().then(() => {
+            return folder.refCache.flush();
         }).then(() => {
-            return symbolCache.flush();
+            return folder.symbolCache.flush();
         }).catch((msg) => {
             Log.warn(msg);
         });
@@ -274,7 +545,9 @@ export namespace Intelephense {
             }
         }
 
-        return { timestamp: cacheTimestamp, documents: known };
+        //oldest folder cache so that no changed document is missed
+        let timestamp = workspaceFolders.length ? Math.min.apply(null, workspaceFolders.map((x) => { return x.cacheTimestamp; })) : 0;
+        return { timestamp: timestamp, documents: known };
     }
 
     export function documentLanguageRanges(textDocument: lsp.TextDocumentIdentifier): LanguageRangeList {
@@ -282,10 +555,205 @@ export namespace Intelephense {
         return doc ? { version: doc.version, ranges: doc.documentLanguageRanges() } : undefined;
     }
 
+    /**
+     * Reads the composer autoload mappings of folder and passes them to
+     * the indexer and providers that use them
+     * @param folder
+     */
+    function readComposerAutoload(folder: WorkspaceFolderState) {
+        return ComposerAutoload.read(folder.path).then((autoload) => {
+            folder.autoload = autoload;
+            folder.indexer.filterFn = autoload ? autoload.isIndexable.bind(autoload) : undefined;
+            updateAutoloads();
+            if (autoload) {
+                Log.info(`Read composer autoload mappings for ${folder.name}`);
+            }
+        }).catch((msg) => {
+            Log.warn(msg);
+        });
+    }
+
+    function updateAutoloads() {
+        let autoloads = workspaceFolders.filter((x) => { return !!x.autoload; }).map((x) => { return x.autoload; });
+        completionProvider.autoloads = autoloads;
+        diagnosticsProvider.autoloads = autoloads;
+    }
+
+    /**
+     * Checks the cached documents of folder against the file system.
+     * Changed documents are rediscovered and missing documents are forgotten.
+     * @param folder
+     */
+    function verifyWorkspace(folder: WorkspaceFolderState) {
+
+        let start = Date.now();
+        let progress = folder.indexer.files.size ? WorkDoneProgress.begin(`Checking ${folder.name}`) : undefined;
+
+        return folder.indexer.verify(isCachedFn(), progress ? progress.progressFn : undefined).then((result) => {
+            if (progress) {
+                progress.end();
+            }
+            if (result.files.length || result.removed.length) {
+                Log.info(`Checked ${result.files.length + result.removed.length} cached files in ${folder.name} in ${Date.now() - start} ms: ` +
+                    `${result.changed.length + result.added.length} changed, ${result.removed.length} removed, ${result.unchanged} unchanged.`);
+            }
+            return result;
+        });
+
+    }
+
+    /**
+     * Discovers symbols and then references for php files in folder.
+     * Files known to the cache and unchanged since last discovered are skipped
+     * and cached files that no longer exist are forgotten.
+     * An index already in progress completes first.
+     * Resolves to the number of files found.
+     * @param folder
+     */
+    function indexWorkspace(folder: WorkspaceFolderState) {
+
+        let previous = folder.indexing ? folder.indexing.catch(() => { return 0; }) : Promise.resolve(0);
+        return folder.indexing = previous.then(() => {
+            return indexWorkspaceFiles(folder);
+        });
+
+    }
+
+    function indexWorkspaceFiles(folder: WorkspaceFolderState) {
+
+        let known = knownDocuments().documents;
+        let start = Date.now();
+        let progress = WorkDoneProgress.begin(`Indexing ${folder.name}`);
+
+        return folder.indexer.index(folder.path, isCachedFn(), progress.progressFn).then((result) => {
+
+            progress.end();
+
+            //documents cached without file information
+            let rootUri = folder.uri.replace(/\/?$/, '/');
+            let found = new Set<string>(result.files.map((x) => { return x.uri; }));
+            let removed = new Set<string>(result.removed);
+            for (let n = 0, l = known.length; n < l; ++n) {
+                if (known[n].indexOf(rootUri) === 0 && !found.has(known[n]) && !removed.has(known[n]) && documentWorkspaceFolder(known[n]) === folder) {
+                    forget(known[n]);
+                    removed.add(known[n]);
+                }
+            }
+
+            Log.info(`Indexed ${result.files.length} files in ${folder.name} in ${Date.now() - start} ms: ` +
+                `${result.added.length} added, ${result.changed.length} changed, ${removed.size} removed, ${result.unchanged} unchanged.`);
+            return result.files.length;
+
+        });
+
+    }
+
+    /**
+     * Predicate for files that have symbols and references in cache
+     */
+    function isCachedFn() {
+        let known = new Set<string>(knownDocuments().documents);
+        return (file: WorkspaceFile) => {
+            return known.has(file.uri) && !!symbolStore.getSymbolTable(file.uri);
+        };
+    }
+
+    /**
+     * Rediscovers created and changed files and forgets deleted files.
+     * Changes are queued per workspace folder and processed in batches.
+     * @param changes
+     */
+    export function onDidChangeWatchedFiles(changes: FileEvent[]) {
+
+        let folderChanges = new Map<WorkspaceFolderState, FileEvent[]>();
+        let folder: WorkspaceFolderState;
+        let events: FileEvent[];
+
+        for (let n = 0, l = changes.length; n < l; ++n) {
+            if (!(folder = documentWorkspaceFolder(changes[n].uri))) {
+                continue;
+            }
+            if (!(events = folderChanges.get(folder))) {
+                folderChanges.set(folder, events = []);
+            }
+            events.push(changes[n]);
+        }
+
+        let processing: Promise<void>[] = [];
+        folderChanges.forEach((events, folder) => {
+            processing.push(folder.indexer.onDidChangeWatchedFiles(events));
+        });
+        return Promise.all(processing);
+
+    }
+
     export function setConfig(config: IntelephenseConfig) {
         diagnosticsProvider.debounceWait = config.diagnosticsProvider.debounce;
         diagnosticsProvider.maxItems = config.diagnosticsProvider.maxItems;
         completionProvider.config = config.completionProvider;
+        organizeImportsProvider.group = !!(config.organizeImports && config.organizeImports.group);
+        if (config.file) {
+            fileConfig = config.file;
+            workspaceFolders.forEach((folder) => {
+                if (applyFileConfig(folder)) {
+                    reindexWorkspace(folder);
+                }
+            });
+        }
+    }
+
+    /**
+     * Overrides the file settings of a single workspace folder.
+     * The folder is indexed again if its settings change.
+     * @param uri workspace folder uri
+     * @param file
+     */
+    export function setWorkspaceFolderConfig(uri: string, file: FileConfig) {
+        let folder = findWorkspaceFolder(uri);
+        if (folder) {
+            folder.fileConfig = file;
+            if (applyFileConfig(folder)) {
+                reindexWorkspace(folder);
+            }
+        }
+    }
+
+    /**
+     * Indexes a folder that has already been indexed with different file settings
+     * @param folder
+     */
+    function reindexWorkspace(folder: WorkspaceFolderState) {
+        if (!indexWorkspaceEnabled || !folder.indexing) {
+            return;
+        }
+        indexWorkspace(folder).catch((msg) => {
+            Log.error(msg);
+        });
+    }
+
+    /**
+     * Configures the folder indexer with the folder or global file settings.
+     * Returns true if the settings differ from those last applied.
+     * @param folder
+     */
+    function applyFileConfig(folder: WorkspaceFolderState) {
+        let file = folder.fileConfig || fileConfig;
+        if (!file) {
+            return false;
+        }
+        let applied = JSON.stringify([file.maxSize, file.include, file.exclude]);
+        let changed = folder.appliedFileConfig !== applied;
+        folder.appliedFileConfig = applied;
+        if (file.maxSize) {
+            folder.indexer.maxSize = file.maxSize;
+        }
+        if (file.include) {
+            folder.indexer.include = file.include;
+        }
+        if (file.exclude) {
+            folder.indexer.exclude = file.exclude;
+        }
+        return changed;
     }
 
     export function openDocument(textDocument: lsp.TextDocumentItem) {
@@ -296,10 +764,13 @@ export namespace Intelephense {
 
         let parsedDocument = new ParsedDocument(textDocument.uri, textDocument.text, textDocument.version);
         documentStore.add(parsedDocument);
+        let oldSymbolTable = symbolStore.getSymbolTable(textDocument.uri);
         let symbolTable = SymbolTable.create(parsedDocument);
         symbolStore.add(symbolTable);
         let refTable = ReferenceReader.discoverReferences(parsedDocument, symbolStore);
         refStore.add(refTable);
+        staleReferenceUris.delete(textDocument.uri);
+        onSymbolTableChange(textDocument.uri, oldSymbolTable, symbolTable, true);
         diagnosticsProvider.add(parsedDocument);
 
     }
@@ -332,8 +803,20 @@ export namespace Intelephense {
         return symbolProvider.provideDocumentSymbols(textDocument.uri);
     }
 
-    export function workspaceSymbols(query: string) {
-        return query ? symbolProvider.provideWorkspaceSymbols(query) : [];
+    /**
+     * Yields before searching so that a queued cancellation of this request is received first
+     * @param query
+     * @param token
+     */
+    export function workspaceSymbols(query: string, token?: CancellationToken) {
+        if (!query) {
+            return Promise.resolve<lsp.SymbolInformation[]>([]);
+        }
+        return new Promise<void>((resolve, reject) => {
+            setImmediate(resolve);
+        }).then(() => {
+            return symbolProvider.provideWorkspaceSymbols(query, token);
+        });
     }
 
     export function provideCompletions(textDocument: lsp.TextDocumentIdentifier, position: lsp.Position) {
@@ -361,7 +844,123 @@ export namespace Intelephense {
 
     export function provideDefinition(textDocument: lsp.TextDocumentIdentifier, position: lsp.Position) {
         flushParseDebounce(textDocument.uri);
-        return definitionProvider.provideDefinition(textDocument.uri, position);
+        let definition = definitionProvider.provideDefinition(textDocument.uri, position);
+        if (!Array.isArray(definition) || definition.length) {
+            return Promise.resolve(definition);
+        }
+        return discoverAutoloadFiles(textDocument.uri, position).then((discovered) => {
+            //class was missing from the index but composer knows where it lives
+            return discovered ? definitionProvider.provideDefinition(textDocument.uri, position) : definition;
+        });
+    }
+
+    /**
+     * Discovers symbols and references in the files that composer maps
+     * the class referenced at position to. Resolves to true if a file was discovered.
+     * @param uri
+     * @param position
+     */
+    function discoverAutoloadFiles(uri: string, position: lsp.Position) {
+
+        let table = refStore.getReferenceTable(uri);
+        let ref = table ? table.referenceAtPosition(position) : undefined;
+        let autoloads = workspaceFolders.filter((x) => { return !!x.autoload; }).map((x) => { return x.autoload; });
+        if (!autoloads.length || !ref) {
+            return Promise.resolve(false);
+        }
+
+        let fqns: string[];
+        if (ref.kind & (SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait | SymbolKind.Constructor)) {
+            fqns = [ref.name];
+        } else if (ref.kind & (SymbolKind.Method | SymbolKind.Property | SymbolKind.ClassConstant)) {
+            fqns = TypeString.atomicClassArray(TypeString.nonGeneric(ref.scope));
+        } else {
+            return Promise.resolve(false);
+        }
+
+        let discovered = false;
+
+        let discoverNextFn = (): Promise<boolean> => {
+            let fqn = fqns.shift();
+            if (fqn === undefined) {
+                return Promise.resolve(discovered);
+            }
+            return autoloadClassFile(autoloads.slice(0), fqn).then((filePath) => {
+                if (!filePath || symbolStore.getSymbolTable(util.pathToUri(filePath))) {
+                    return;
+                }
+                return readTextFile(filePath).then((text) => {
+                    let textDocument = lsp.TextDocumentItem.create(util.pathToUri(filePath), phpLanguageId, 0, text);
+                    discoverSymbols(textDocument);
+                    discoverReferences(textDocument);
+                    discovered = true;
+                }).catch((msg) => {
+                    Log.warn(msg);
+                });
+            }).then(discoverNextFn);
+        };
+
+        return discoverNextFn();
+
+    }
+
+    /**
+     * Resolves to the file of the first autoload that maps fqn
+     * @param autoloads
+     * @param fqn
+     */
+    function autoloadClassFile(autoloads: ComposerAutoload[], fqn: string): Promise<string> {
+        let autoload = autoloads.shift();
+        if (!autoload) {
+            return Promise.resolve<string>(undefined);
+        }
+        return autoload.classFile(fqn).then((filePath) => {
+            return filePath || autoloadClassFile(autoloads, fqn);
+        });
+    }
+
+    function readTextFile(filePath: string) {
+        return new Promise<string>((resolve, reject) => {
+            fs.readFile(filePath, (err, data) => {
+                if (err) {
+                    reject(err.message);
+                } else {
+                    resolve(data.toString());
+                }
+            });
+        });
+    }
+
+    export function provideImplementations(textDocument: lsp.TextDocumentIdentifier, position: lsp.Position) {
+        flushParseDebounce(textDocument.uri);
+        return implementationProvider.provideImplementations(textDocument.uri, position);
+    }
+
+    export function prepareTypeHierarchy(textDocument: lsp.TextDocumentIdentifier, position: lsp.Position) {
+        flushParseDebounce(textDocument.uri);
+        return typeHierarchyProvider.prepareTypeHierarchy(textDocument.uri, position);
+    }
+
+    export function typeHierarchySupertypes(item: TypeHierarchyItem) {
+        return typeHierarchyProvider.supertypes(item);
+    }
+
+    export function typeHierarchySubtypes(item: TypeHierarchyItem) {
+        return typeHierarchyProvider.subtypes(item);
+    }
+
+    export function prepareCallHierarchy(textDocument: lsp.TextDocumentIdentifier, position: lsp.Position) {
+        flushParseDebounce(textDocument.uri);
+        return callHierarchyProvider.prepareCallHierarchy(textDocument.uri, position);
+    }
+
+    export function callHierarchyIncomingCalls(item: CallHierarchyItem) {
+        return callHierarchyProvider.incomingCalls(item);
+    }
+
+    export function callHierarchyOutgoingCalls(item: CallHierarchyItem) {
+        flushParseDebounce(item.uri);
+        return callHierarchyProvider.outgoingCalls(item);
     }
 
     export function discoverSymbols(textDocument: lsp.TextDocumentItem) {
@@ -379,8 +978,34 @@ export namespace Intelephense {
         let parsedDocument = new ParsedDocument(uri, text, textDocument.version);
         let symbolTable = SymbolTable.create(parsedDocument, true);
         symbolTable.pruneScopedVars();
-        symbolStore.add(symbolTable);
+        return addDiscoveredSymbolTable(symbolTable);
+    }
+
+    /**
+     * Parses and discovers symbols in a worker thread.
+     * If the document is opened meanwhile the open document takes priority and the result is discarded.
+     * @param textDocument
+     */
+    function discoverSymbolsInWorker(textDocument: lsp.TextDocumentItem) {
+
+        if (documentStore.has(textDocument.uri)) {
+            return discoverSymbols(textDocument);
+        }
+
+        return indexerPool.discoverSymbols(textDocument).then((symbolTable) => {
+            if (documentStore.has(symbolTable.uri)) {
+                let openSymbolTable = symbolStore.getSymbolTable(symbolTable.uri);
+                return openSymbolTable ? openSymbolTable.symbolCount : 0;
+            }
+            return addDiscoveredSymbolTable(symbolTable);
+        });
 
+    }
+
+    function addDiscoveredSymbolTable(symbolTable: SymbolTable) {
+        let oldSymbolTable = symbolStore.getSymbolTable(symbolTable.uri);
+        symbolStore.add(symbolTable);
+        onSymbolTableChange(symbolTable.uri, oldSymbolTable, symbolTable);
         return symbolTable.symbolCount;
     }
 
@@ -401,15 +1026,164 @@ export namespace Intelephense {
 
         let text = textDocument.text;
         let parsedDocument = new ParsedDocument(uri, text, textDocument.version);
-        refTable = ReferenceReader.discoverReferences(parsedDocument, symbolStore);
+        return addDiscoveredReferenceTable(ReferenceReader.discoverReferences(parsedDocument, symbolStore));
+    }
+
+    /**
+     * Parses and discovers references in a worker thread.
+     * If the document is opened meanwhile the open document takes priority and the result is discarded.
+     * @param textDocument
+     */
+    function discoverReferencesInWorker(textDocument: lsp.TextDocumentItem) {
+
+        if (documentStore.has(textDocument.uri) || !symbolStore.getSymbolTable(textDocument.uri)) {
+            return discoverReferences(textDocument);
+        }
+
+        //the worker resolves against its copy of this table
+        let sentSymbolTable = symbolStore.getSymbolTable(textDocument.uri);
+
+        return indexerPool.discoverReferences(textDocument).then((discovered) => {
+            let refTable = discovered.referenceTable;
+            if (documentStore.has(refTable.uri)) {
+                let openRefTable = refStore.getReferenceTable(refTable.uri);
+                return openRefTable ? openRefTable.referenceCount : 0;
+            }
+            let currentSymbolTable = symbolStore.getSymbolTable(refTable.uri);
+            if (discovered.symbolTable && currentSymbolTable === sentSymbolTable) {
+                //carries the return types inferred in the worker.
+                //discarded if the document was rediscovered meanwhile
+                symbolStore.add(discovered.symbolTable);
+                onSymbolTableChange(refTable.uri, currentSymbolTable, discovered.symbolTable, true);
+            }
+            return addDiscoveredReferenceTable(refTable);
+        });
+
+    }
+
+    function addDiscoveredReferenceTable(refTable: ReferenceTable) {
+        //cached after references are discovered so that inferred return types are included
+        //and unchanged documents are not rediscovered next session
+        let symbolTable = symbolStore.getSymbolTable(refTable.uri);
+        if (symbolTable) {
+            symbolCache.write(symbolTable.uri, symbolTable).catch((msg) => { Log.error(msg) });
+        }
         refStore.add(refTable);
+        staleReferenceUris.delete(refTable.uri);
         refStore.close(refTable.uri);
         return refTable.referenceCount;
     }
 
+    /**
+     * Marks the references of other documents that were resolved against declarations
+     * that differ between oldSymbolTable and newSymbolTable as stale.
+     * Stale references are rediscovered in the background.
+     * @param uri
+     * @param oldSymbolTable
+     * @param newSymbolTable
+     * @param syncWorkers newSymbolTable is sent to running workers
+     */
+    function onSymbolTableChange(uri: string, oldSymbolTable: SymbolTable, newSymbolTable: SymbolTable, syncWorkers?: boolean) {
+
+        if (syncWorkers && indexerPool && newSymbolTable) {
+            indexerPool.addSymbolTables([newSymbolTable]);
+        }
+
+        let changed = SymbolTable.changedDeclarations(oldSymbolTable, newSymbolTable);
+        if (!changed.length) {
+            return;
+        }
+
+        //members of subtypes are resolved against changed base types
+        let names = new Set<string>(changed);
+        let subtypes: PhpSymbol[];
+        for (let n = 0, l = changed.length; n < l; ++n) {
+            subtypes = symbolStore.findSubtypes(changed[n]);
+            for (let k = 0, j = subtypes.length; k < j; ++k) {
+                names.add(subtypes[k].name.toLowerCase());
+            }
+        }
+
+        let dependents = refStore.dependents(Array.from(names));
+        for (let n = 0, l = dependents.length; n < l; ++n) {
+            if (dependents[n] !== uri) {
+                staleReferenceUris.add(dependents[n]);
+            }
+        }
+
+        if (staleReferenceUris.size) {
+            staleReferencesDebounce.handle(undefined);
+        }
+
+    }
+
+    /**
+     * Rediscovers stale references. Open documents are rediscovered immediately,
+     * other documents are read from disk by the indexer of their workspace folder.
+     */
+    function resolveStaleReferences() {
+
+        let uris = Array.from(staleReferenceUris);
+        let folderUris = new Map<WorkspaceFolderState, string[]>();
+        let parsedDocument: ParsedDocument;
+        let folder: WorkspaceFolderState;
+        staleReferenceUris.clear();
+
+        for (let n = 0, l = uris.length; n < l; ++n) {
+            if ((parsedDocument = documentStore.find(uris[n]))) {
+                refStore.add(ReferenceReader.discoverReferences(parsedDocument, symbolStore));
+            } else if ((folder = documentWorkspaceFolder(uris[n]))) {
+                if (!folderUris.has(folder)) {
+                    folderUris.set(folder, []);
+                }
+                folderUris.get(folder).push(uris[n]);
+            }
+        }
+
+        let rediscovering: Promise<string[]>[] = [];
+        folderUris.forEach((uris, folder) => {
+            rediscovering.push(folder.indexer.rediscoverReferences(uris));
+        });
+
+        return Promise.all(rediscovering);
+
+    }
+
+    /**
+     * Background discovery runs in worker threads when available.
+     * @param workers number of worker threads. 0 to discover on the main thread.
+     */
+    function createIndexerPool(workers?: number) {
+
+        if (indexerPool) {
+            indexerPool.terminate();
+            indexerPool = undefined;
+        }
+
+        if (workers === undefined) {
+            workers = Math.max(1, Math.min(os.cpus().length - 1, 4));
+        }
+
+        if (workers < 1 || !IndexerPool.isSupported()) {
+            return;
+        }
+
+        indexerPool = new IndexerPool(workers);
+        indexerPool.symbolTablesFn = () => {
+            return Array.from(symbolStore.tables).filter((x) => { return x.uri !== 'php'; });
+        };
+
+    }
+
     export function forget(uri: string) {
+        let oldSymbolTable = symbolStore.getSymbolTable(uri);
         symbolStore.remove(uri);
         refStore.remove(uri, true);
+        staleReferenceUris.delete(uri);
+        onSymbolTableChange(uri, oldSymbolTable, undefined);
+        if (indexerPool) {
+            indexerPool.removeSymbolTables([uri]);
+        }
     }
 
     export function provideContractFqnTextEdits(uri: string, position: lsp.Position, alias?: string) {
@@ -417,6 +1191,11 @@ export namespace Intelephense {
         return nameTextEditProvider.provideContractFqnTextEdits(uri, position, alias);
     }
 
+    export function provideOrganizeImportsTextEdits(uri: string) {
+        flushParseDebounce(uri);
+        return organizeImportsProvider.provideOrganizeImportsTextEdits(uri);
+    }
+
     export function numberDocumentsOpen() {
         return documentStore.count;
     }
@@ -439,9 +1218,39 @@ export namespace Intelephense {
         return formatProvider.provideDocumentRangeFormattingEdits(doc, range, formatOptions);
     }
 
-    export function provideReferences(doc: lsp.TextDocumentIdentifier, pos: lsp.Position, context: lsp.ReferenceContext) {
+    /**
+     * 
+     * @param doc 
+     * @param pos 
+     * @param context 
+     * @param token 
+     * @param workDoneToken client supplied token for progress
+     */
+    export function provideReferences(doc: lsp.TextDocumentIdentifier, pos: lsp.Position, context: lsp.ReferenceContext, token?: CancellationToken, workDoneToken?: ProgressToken) {
+        flushParseDebounce(doc.uri);
+        let progress = WorkDoneProgress.begin('Finding references', workDoneToken);
+        return referenceProvider.provideReferenceLocations(doc.uri, pos, context, token, progress.progressFn).then((locations) => {
+            progress.end();
+            return locations;
+        }, (err) => {
+            progress.end();
+            return Promise.reject(err);
+        });
+    }
+
+    export function prepareRename(doc: lsp.TextDocumentIdentifier, pos: lsp.Position) {
+        flushParseDebounce(doc.uri);
+        return renameProvider.prepareRename(doc.uri, pos);
+    }
+
+    export function provideRenameEdits(doc: lsp.TextDocumentIdentifier, pos: lsp.Position, newName: string) {
         flushParseDebounce(doc.uri);
-        return referenceProvider.provideReferenceLocations(doc.uri, pos, context);
+        return renameProvider.provideRenameEdits(doc.uri, pos, newName);
+    }
+
+    export function provideCodeActions(doc: lsp.TextDocumentIdentifier, range: lsp.Range) {
+        flushParseDebounce(doc.uri);
+        return codeActionProvider.provideCodeActions(doc.uri, range);
     }
 
     function flushParseDebounce(uri: string) {
@@ -466,13 +1275,48 @@ export interface IntelephenseConfig {
         addUseDeclaration: boolean,
         backslashPrefix: boolean
     },
-    file: {
-        maxSize: number
+    file: FileConfig,
+    organizeImports: {
+        group: boolean
     }
 }
 
+interface CacheVersion {
+    server: string;
+    schema: number;
+}
+
+export interface FileConfig {
+    maxSize: number,
+    include: string[],
+    exclude: string[]
+}
+
 export interface InitialisationOptions extends InitializeParams {
     connection?: any;
+    workspaceFolders?: Proposed.WorkspaceFolder[];
+}
+
+interface WorkspaceFolderState {
+    uri: string;
+    name: string;
+    path: string;
+    storagePath: string;
+    symbolCache: Cache;
+    refCache: Cache;
+    stateCache: Cache;
+    cacheTimestamp: number;
+    indexer: WorkspaceIndexer;
+    autoload: ComposerAutoload;
+    fileConfig: FileConfig;
+    /**
+     * The file settings the indexer was last configured with
+     */
+    appliedFileConfig: string;
+    /**
+     * The current or last index of the folder
+     */
+    indexing: Promise<number>;
 }
 
 export interface LanguageRangeList {
@@ -4,7 +4,7 @@
 
 'use strict';
 
-import { Phrase, Token, TokenType, PhraseType, Parser } from 'php7parser';
+import { Phrase, Token, TokenType, PhraseType, Parser, ParseError } from 'php7parser';
 import { TextDocument } from './textDocument';
 import * as lsp from 'vscode-languageserver-types';
 import {
@@ -32,8 +32,12 @@ export class ParsedDocument implements Traversable<Phrase | Token>{
     private _parseTree: Phrase;
     private _changeEvent: Event<ParsedDocumentChangeEventArgs>;
     private _debounce: Debounce<null>;
+    private _parseTreeStale = false;
     private _reparse = (x) => {
-        this._parseTree = Parser.parse(this._textDocument.text);
+        if (this._parseTreeStale) {
+            this._parseTree = Parser.parse(this._textDocument.text);
+            this._parseTreeStale = false;
+        }
         this._changeEvent.trigger({ parsedDocument: this });
     };
 
@@ -92,13 +96,21 @@ export class ParsedDocument implements Traversable<Phrase | Token>{
     applyChanges(contentChanges: lsp.TextDocumentContentChangeEvent[]) {
 
         let change: lsp.TextDocumentContentChangeEvent;
+        let start: number;
+        let end: number;
 
         for (let n = 0, l = contentChanges.length; n < l; ++n) {
             change = contentChanges[n];
             if(!change.range) {
                 this._textDocument.text = change.text;
+                this._parseTreeStale = true;
             } else {
+                start = this._textDocument.offsetAtPosition(change.range.start);
+                end = this._textDocument.offsetAtPosition(change.range.end);
                 this._textDocument.applyEdit(change.range.start, change.range.end, change.text);
+                if (!this._parseTreeStale) {
+                    this._parseTreeStale = !IncrementalParse.splice(this._parseTree, this._textDocument.text, start, end, change.text.length);
+                }
             }
         }
 
@@ -344,6 +356,288 @@ export namespace ParsedDocument {
 
 }
 
+/**
+ * Reparses the smallest statement or class member that encloses an edit and
+ * splices the new phrase into the existing tree.
+ */
+namespace IncrementalParse {
+
+    interface Fragment {
+        prefix: string;
+        suffix: string;
+        declarationType?: PhraseType;
+    }
+
+    const fragments: { [phraseType: number]: Fragment } = {};
+    fragments[PhraseType.StatementList] = { prefix: '<?php ', suffix: '' };
+    fragments[PhraseType.ClassMemberDeclarationList] = { prefix: '<?php class X{', suffix: '}', declarationType: PhraseType.ClassDeclaration };
+    fragments[PhraseType.InterfaceMemberDeclarationList] = { prefix: '<?php interface X{', suffix: '}', declarationType: PhraseType.InterfaceDeclaration };
+    fragments[PhraseType.TraitMemberDeclarationList] = { prefix: '<?php trait X{', suffix: '}', declarationType: PhraseType.TraitDeclaration };
+
+    interface Candidate {
+        parent: Phrase;
+        index: number;
+        start: number;
+        end: number;
+    }
+
+    /**
+     * Updates tree for the replacement of text between start and end (offsets in the text before the edit)
+     * with text of length newLength.
+     * Returns false and leaves tree unchanged if the edit cannot be spliced safely, in which case
+     * the document must be parsed in full.
+     * @param tree
+     * @param text the text after the edit
+     * @param start
+     * @param end
+     * @param newLength
+     */
+    export function splice(tree: Phrase, text: string, start: number, end: number, newLength: number) {
+
+        let candidate = enclosingCandidate(tree, start, end);
+        if (!candidate) {
+            return false;
+        }
+
+        let delta = newLength - (end - start);
+        let node = <Phrase>candidate.parent.children[candidate.index];
+        let fragment = fragments[candidate.parent.phraseType];
+        let replacement = parseFragment(fragment, text.slice(candidate.start, candidate.end + delta), candidate.parent.phraseType);
+
+        if (!replacement || !remapTokens(replacement, node, candidate.start - fragment.prefix.length)) {
+            return false;
+        }
+
+        shiftTokens(tree, candidate.end, delta);
+        candidate.parent.children[candidate.index] = replacement;
+        return true;
+
+    }
+
+    /**
+     * The deepest statement or member that strictly contains the edit so that its first and last characters
+     * are unchanged. It must end in ; or } so that the following token lexes the same.
+     * A following error phrase may be absorbed by the new phrase in a full parse (eg else after if)
+     * so the enclosing candidate is used instead.
+     */
+    function enclosingCandidate(tree: Phrase, start: number, end: number) {
+
+        let candidate: Candidate;
+        let parent = tree;
+        let child: Phrase | Token;
+        let tFirst: Token;
+        let tLast: Token;
+        let next: Phrase | Token;
+
+        while (parent) {
+
+            let containing: Phrase = undefined;
+
+            for (let n = 0, l = parent.children.length; n < l; ++n) {
+
+                child = parent.children[n];
+                if (ParsedDocument.isToken(child)) {
+                    continue;
+                }
+
+                tFirst = ParsedDocument.firstToken(child);
+                tLast = ParsedDocument.lastToken(child);
+                if (!tFirst || tFirst.offset >= start || tLast.offset + tLast.length <= end) {
+                    continue;
+                }
+
+                containing = <Phrase>child;
+                next = nextPhrase(parent, n);
+                if (
+                    fragments[parent.phraseType] &&
+                    !isExcluded(containing) &&
+                    ParsedDocument.isToken(tLast, [TokenType.Semicolon, TokenType.CloseBrace]) &&
+                    (!next || !isError(<Phrase>next))
+                ) {
+                    candidate = { parent: parent, index: n, start: tFirst.offset, end: tLast.offset + tLast.length };
+                }
+                break;
+
+            }
+
+            parent = containing;
+
+        }
+
+        return candidate;
+
+    }
+
+    function isExcluded(node: Phrase) {
+        switch (node.phraseType) {
+            case PhraseType.InlineText:
+            case PhraseType.HaltCompilerStatement:
+                return true;
+            default:
+                return isError(node);
+        }
+    }
+
+    function isError(node: Phrase) {
+        return (<ParseError>node).unexpected !== undefined;
+    }
+
+    function nextPhrase(parent: Phrase, index: number) {
+        for (let n = index + 1, l = parent.children.length; n < l; ++n) {
+            if (ParsedDocument.isPhrase(parent.children[n])) {
+                return parent.children[n];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Parses text wrapped in the fragment prefix and suffix and returns the single phrase parsed from text
+     */
+    function parseFragment(fragment: Fragment, text: string, listType: PhraseType) {
+
+        let root: Phrase;
+        try {
+            root = Parser.parse(fragment.prefix + text + fragment.suffix);
+        } catch (e) {
+            return undefined;
+        }
+
+        if (root.children.length !== 2 || !ParsedDocument.isPhrase(root.children[1])) {
+            return undefined;
+        }
+
+        let list: Phrase;
+        if (fragment.declarationType === undefined) {
+            list = root;
+        } else {
+            let declaration = <Phrase>root.children[1];
+            if (declaration.phraseType !== fragment.declarationType) {
+                return undefined;
+            }
+            let body = <Phrase>declaration.children[declaration.children.length - 1];
+            list = body && body.children ? <Phrase>ParsedDocument.findChild(body, (x) => {
+                return (<Phrase>x).phraseType === listType;
+            }) : undefined;
+            if (!list || body.children.length !== 3) {
+                return undefined;
+            }
+        }
+
+        let node = list.children[list.children.length - 1];
+        if (list.children.length !== (list === root ? 2 : 1) || !ParsedDocument.isPhrase(node) || containsError(<Phrase>node)) {
+            return undefined;
+        }
+
+        return <Phrase>node;
+
+    }
+
+    function containsError(node: Phrase): boolean {
+        if (isError(node)) {
+            return true;
+        }
+        let child: Phrase | Token;
+        for (let n = 0, l = node.children.length; n < l; ++n) {
+            child = node.children[n];
+            if (ParsedDocument.isPhrase(child) && containsError(<Phrase>child)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Moves tokens of the fragment phrase to their document offsets and lexer mode stacks.
+     * Fails if the phrase leaves the lexer in a different mode than the phrase it replaces.
+     */
+    function remapTokens(replacement: Phrase, node: Phrase, offset: number) {
+
+        let tokens: Token[] = [];
+        collectTokens(replacement, tokens);
+        let fragmentBase = tokens[0].modeStack;
+        let base = ParsedDocument.firstToken(node).modeStack;
+        let modeStacks: LexerModeStack[] = [];
+        let t: Token;
+
+        if (fragmentBase[fragmentBase.length - 1] !== base[base.length - 1]) {
+            return false;
+        }
+
+        for (let n = 0, l = tokens.length; n < l; ++n) {
+            t = tokens[n];
+            if (!isPrefix(fragmentBase, t.modeStack)) {
+                return false;
+            }
+            modeStacks.push(base.concat(t.modeStack.slice(fragmentBase.length)));
+        }
+
+        let last = modeStacks[modeStacks.length - 1];
+        let nodeLast = ParsedDocument.lastToken(node).modeStack;
+        if (last.length !== nodeLast.length || !isPrefix(last, nodeLast)) {
+            return false;
+        }
+
+        for (let n = 0, l = tokens.length; n < l; ++n) {
+            tokens[n].offset += offset;
+            tokens[n].modeStack = modeStacks[n];
+        }
+
+        return true;
+
+    }
+
+    type LexerModeStack = number[];
+
+    function isPrefix(prefix: LexerModeStack, stack: LexerModeStack) {
+        if (stack.length < prefix.length) {
+            return false;
+        }
+        for (let n = 0, l = prefix.length; n < l; ++n) {
+            if (prefix[n] !== stack[n]) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    function collectTokens(node: Phrase | Token, tokens: Token[]) {
+        if (ParsedDocument.isToken(node)) {
+            tokens.push(<Token>node);
+            return;
+        }
+        let children = (<Phrase>node).children;
+        for (let n = 0, l = children.length; n < l; ++n) {
+            collectTokens(children[n], tokens);
+        }
+    }
+
+    /**
+     * Adds delta to the offset of tokens at or after offset. Phrases that end before offset are skipped.
+     */
+    function shiftTokens(node: Phrase | Token, offset: number, delta: number) {
+
+        if (ParsedDocument.isToken(node)) {
+            if ((<Token>node).offset >= offset) {
+                (<Token>node).offset += delta;
+            }
+            return;
+        }
+
+        let tLast = ParsedDocument.lastToken(node);
+        if (!tLast || tLast.offset < offset) {
+            return;
+        }
+
+        let children = (<Phrase>node).children;
+        for (let n = 0, l = children.length; n < l; ++n) {
+            shiftTokens(children[n], offset, delta);
+        }
+
+    }
+
+}
+
 export class ParsedDocumentStore {
 
     private _parsedDocumentChangeEvent: Event<ParsedDocumentChangeEventArgs>;
@@ -10,11 +10,16 @@ export namespace PhpDocParser {
     const tagBoundaryPattern: RegExp = /(?:\r\n|\r|\n)(?=@)/;
     const summaryBoundaryPattern: RegExp = /\.(?:\r\n|\r|\n)|(?:\r\n|\r|\n){2}/;
     const whitespacePattern: RegExp = /\s+/;
-    const paramOrPropertyPattern = /^(@param|@property|@property-read|@property-write)\s+(\S+)\s+(\$\S+)\s*([^]*)$/;
-    const varPattern = /^(@var)\s+(\S+)(?:\s+(\$\S+))?\s*([^]*)$/;
-    const returnPattern = /^(@return)\s+(\S+)\s*([^]*)$/;
+    //type strings may contain spaces within generic arguments, shapes or signatures
+    //eg Iterator<int, User>, array{id: int}, callable(int, string): bool
+    const typePattern = '((?:[^\\s<{(]|<(?:[^<>]|<[^<>]*>)*>|\\{(?:[^{}]|\\{[^{}]*\\})*\\}|\\((?:[^()]|\\([^()]*\\))*\\)(?:\\s*:\\s*)?)+)';
+    const paramOrPropertyPattern = new RegExp('^(@param|@property|@property-read|@property-write)\\s+' + typePattern + '\\s+(\\$\\S+)\\s*([^]*)$');
+    const varPattern = new RegExp('^(@var)\\s+' + typePattern + '(?:\\s+(\\$\\S+))?\\s*([^]*)$');
+    const returnPattern = new RegExp('^(@return)\\s+' + typePattern + '\\s*([^]*)$');
     const methodPattern = /^(@method)\s+(?:(static)\s+)?(?:(\S+)\s+)?(\S+)\(\s*([^)]*)\s*\)\s*([^]*)$/;
-    const globalPattern = /^(@global)\s+(\S+)(?:\s+(\$\S+))?\s*([^]*)$/;
+    const globalPattern = new RegExp('^(@global)\\s+' + typePattern + '(?:\\s+(\\$\\S+))?\\s*([^]*)$');
+    const templatePattern = new RegExp('^(@template)\\s+([a-zA-Z_\\x80-\\xff][a-zA-Z0-9_\\x80-\\xff]*)(?:\\s+of\\s+' + typePattern + ')?\\s*([^]*)$');
+    const extendsOrImplementsPattern = new RegExp('^(@extends|@implements)\\s+' + typePattern + '\\s*([^]*)$');
     
     export function parse(input: string) {
 
@@ -37,7 +42,7 @@ export namespace PhpDocParser {
 
         while (tagString = split.shift()) {
 
-            //parse @param, @var, @property*, @return, @method tags
+            //parse @param, @var, @property*, @return, @method, @global, @template, @extends, @implements tags
             tag = parseTag(tagString);
             if(tag){
                 tags.push(tag);
@@ -86,6 +91,18 @@ export namespace PhpDocParser {
                     return typeTag(match[1], match[2], match[3], match[4]);
                 }
                 return null;
+            case '@tem':
+                if ((match = text.match(templatePattern))) {
+                    //bound type if any is the tag type
+                    return typeTag(match[1], match[3], match[2], match[4]);
+                }
+                return null;
+            case '@ext':
+            case '@imp':
+                if ((match = text.match(extendsOrImplementsPattern))) {
+                    return typeTag(match[1], match[2], '', match[3]);
+                }
+                return null;
             default:
                 return null;
         }
@@ -96,7 +113,7 @@ export namespace PhpDocParser {
     function typeTag(tagName: string, typeString: string, name: string, description: string) {
         return {
             tagName: tagName,
-            typeString: typeString,
+            typeString: typeString ? typeString : '',
             name: name ? name : '',
             description: description ? description : ''
         };
@@ -190,6 +207,17 @@ export class PhpDoc {
         return this.tags.filter(PhpDoc.isGlobalTag);
     }
 
+    get templateTags() {
+        return this.tags.filter(PhpDoc.isTemplateTag);
+    }
+
+    /**
+     * @extends and @implements tags
+     */
+    get extendsTags() {
+        return this.tags.filter(PhpDoc.isExtendsTag);
+    }
+
     findParamTag(name: string) {
         let fn = (x) => {
             return x.tagName === '@param' && x.name === name;
@@ -235,4 +263,12 @@ export namespace PhpDoc {
         return t.tagName === '@global';
     }
 
+    export function isTemplateTag(t: Tag) {
+        return t.tagName === '@template';
+    }
+
+    export function isExtendsTag(t: Tag) {
+        return t.tagName === '@extends' || t.tagName === '@implements';
+    }
+
 }
\ No newline at end of file
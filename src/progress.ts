@@ -0,0 +1,113 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { ProgressFn } from './types';
+
+export type ProgressToken = number | string;
+
+/**
+ * Sends $/progress work done notifications for a single operation.
+ * Reports are sent only when the percentage changes.
+ */
+export class WorkDoneReporter {
+
+    private _ready: Promise<boolean>;
+    private _percentage = -1;
+    private _ended = false;
+
+    constructor(private _connection: any, public token: ProgressToken, ready: Promise<boolean>) {
+        this._ready = ready;
+    }
+
+    begin(title: string) {
+        this._send({ kind: 'begin', title: title, cancellable: false, percentage: 0 });
+    }
+
+    report(done: number, total: number) {
+        let percentage = total > 0 ? Math.min(100, Math.floor((done / total) * 100)) : 0;
+        if (this._ended || percentage === this._percentage) {
+            return;
+        }
+        this._percentage = percentage;
+        this._send({ kind: 'report', message: `${done}/${total}`, percentage: percentage });
+    }
+
+    end(message?: string) {
+        if (this._ended) {
+            return;
+        }
+        this._ended = true;
+        this._send({ kind: 'end', message: message });
+    }
+
+    /**
+     * report bound to this
+     */
+    get progressFn(): ProgressFn {
+        return (done: number, total: number) => {
+            this.report(done, total);
+        };
+    }
+
+    private _send(value: any) {
+        if (!this._connection) {
+            return;
+        }
+        let connection = this._connection;
+        let token = this.token;
+        //notifications are sent in order once the token has been created
+        this._ready = this._ready.then((ok) => {
+            if (ok) {
+                connection.sendNotification('$/progress', { token: token, value: value });
+            }
+            return ok;
+        });
+    }
+
+}
+
+export namespace WorkDoneProgress {
+
+    export var connection: any;
+
+    /**
+     * The client supports server initiated progress (window.workDoneProgress)
+     */
+    export var supported = false;
+
+    let tokenCount = 0;
+
+    /**
+     * Begins work done progress on token. If no token is given one is
+     * created with window/workDoneProgress/create when the client supports it.
+     * The reporter does nothing if progress can not be sent.
+     * @param title
+     * @param token a workDoneToken supplied by the client
+     */
+    export function begin(title: string, token?: ProgressToken) {
+
+        let reporter: WorkDoneReporter;
+
+        if (!connection || (token === undefined && !supported)) {
+            reporter = new WorkDoneReporter(undefined, token, Promise.resolve(false));
+        } else if (token !== undefined) {
+            reporter = new WorkDoneReporter(connection, token, Promise.resolve(true));
+        } else {
+            token = 'intelephense/' + (++tokenCount);
+            let created = Promise.resolve(connection.sendRequest('window/workDoneProgress/create', { token: token })).then(() => {
+                return true;
+            }, () => {
+                return false;
+            });
+            reporter = new WorkDoneReporter(connection, token, created);
+        }
+
+        reporter.begin(title);
+        return reporter;
+
+    }
+
+}
@@ -4,12 +4,14 @@
 
 'use strict';
 
-import { Predicate, TreeVisitor, TreeTraverser, NameIndex, Traversable, SortedList } from './types';
+import { Predicate, TreeVisitor, TreeTraverser, NameIndex, Traversable, SortedList, ProgressFn } from './types';
 import { SymbolIdentifier, SymbolKind } from './symbol';
 import { Range, Location, Position } from 'vscode-languageserver-types';
 import * as util from './util';
 import { FileCache, Cache } from './cache';
 import { Log } from './logger';
+import { TypeString } from './typeString';
+import { CancellationToken } from 'vscode-jsonrpc';
 
 export interface Reference extends SymbolIdentifier {
     location: Location;
@@ -104,6 +106,10 @@ export class ReferenceTable implements Traversable<Scope | Reference> {
 export interface ReferenceTableSummary {
     uri: string;
     identifiers: string[];
+    /**
+     * Lowercase names of the classes, functions and constants that references were resolved against
+     */
+    dependencies?: string[];
 }
 
 namespace ReferenceTableSummary {
@@ -111,10 +117,11 @@ namespace ReferenceTableSummary {
         return (<ReferenceTableSummaryVisitor>table.traverse(new ReferenceTableSummaryVisitor(table.uri))).referenceTableSummary;
     }
 
-    export function create(uri: string, identifiers: string[]) {
-        return {
+    export function create(uri: string, identifiers: string[], dependencies?: string[]) {
+        return <ReferenceTableSummary>{
             uri: uri,
-            identifiers: identifiers
+            identifiers: identifiers,
+            dependencies: dependencies
         };
     }
 
@@ -127,6 +134,10 @@ namespace ReferenceTableSummary {
         return x.identifiers;
     }
 
+    export function dependencyKeys(x: ReferenceTableSummary) {
+        return x.dependencies || [];
+    }
+
     export function uriCompareFn(uri: string) {
         return (x: ReferenceTableSummary) => {
             return collator.compare(x.uri, uri);
@@ -139,11 +150,13 @@ export class ReferenceStore {
 
     private _tables: ReferenceTable[];
     private _nameIndex: NameIndex<ReferenceTableSummary>;
+    private _dependencyIndex: NameIndex<ReferenceTableSummary>;
     private _summaryIndex: SortedList<ReferenceTableSummary>;
     private _cache: Cache;
 
     constructor(cache: Cache) {
         this._nameIndex = new NameIndex<ReferenceTableSummary>(ReferenceTableSummary.keys);
+        this._dependencyIndex = new NameIndex<ReferenceTableSummary>(ReferenceTableSummary.dependencyKeys);
         this._summaryIndex = new SortedList<ReferenceTableSummary>(ReferenceTableSummary.compare);
         this._tables = [];
         this._cache = cache;
@@ -160,6 +173,14 @@ export class ReferenceStore {
         return util.find<ReferenceTable>(this._tables, (t) => { return t.uri === uri; });
     }
 
+    /**
+     * Open table for uri or table read from cache
+     * @param uri
+     */
+    fetchReferenceTable(uri: string) {
+        return this._fetchTable(uri);
+    }
+
     add(table: ReferenceTable) {
         if (this.getReferenceTable(table.uri) || this._summaryIndex.find(ReferenceTableSummary.uriCompareFn(table.uri))) {
             this.remove(table.uri);
@@ -168,6 +189,7 @@ export class ReferenceStore {
         let summary = ReferenceTableSummary.fromTable(table);
         this._summaryIndex.add(summary);
         this._nameIndex.add(summary);
+        this._dependencyIndex.add(summary);
     }
 
     remove(uri: string, purge?: boolean) {
@@ -177,6 +199,7 @@ export class ReferenceStore {
             return;
         }
         this._nameIndex.remove(summary);
+        this._dependencyIndex.remove(summary);
         if (purge) {
             this._cache.delete(uri);
         }
@@ -184,9 +207,9 @@ export class ReferenceStore {
 
     close(uri: string) {
         let table = this._tablesRemove(uri);
-        // if (table) {
-        //     return this._cache.write(table.uri, table.root).catch((msg) => { Log.error(msg) });
-        // }
+        if (table) {
+            return this._cache.write(table.uri, table).catch((msg) => { Log.error(msg) });
+        }
         return Promise.resolve();
     }
 
@@ -227,15 +250,25 @@ export class ReferenceStore {
 
     }
 
-    find(name: string, filter?: Predicate<Reference>): Promise<Reference[]> {
+    /**
+     * Fetches the tables that contain references to name four at a time.
+     * No further tables are fetched once token is cancelled and the promise resolves to an empty array.
+     * @param name
+     * @param filter
+     * @param token
+     * @param progressFn called with the number of tables searched
+     */
+    find(name: string, filter?: Predicate<Reference>, token?: CancellationToken, progressFn?: ProgressFn): Promise<Reference[]> {
 
         if (!name) {
             return Promise.resolve<Reference[]>([]);
         }
 
         //find uris that contain ref matching name
-        let summaries = this._nameIndex.find(name);
+        //copied as the index array is consumed below
+        let summaries = this._nameIndex.find(name).slice();
         let count = summaries.length;
+        let total = count;
         if (!count) {
             return Promise.resolve<Reference[]>([]);
         }
@@ -257,7 +290,12 @@ export class ReferenceStore {
 
             let onAlways = () => {
                 count--;
-                if (count < 1) {
+                if (progressFn) {
+                    progressFn(total - count, total);
+                }
+                if (token && token.isCancellationRequested) {
+                    resolve([]);
+                } else if (count < 1) {
                     resolve(findInTablesFn(tables, name, filter));
                 } else {
                     let summary = summaries.pop();
@@ -276,14 +314,51 @@ export class ReferenceStore {
 
     }
 
+    /**
+     * Uris of tables with references that were resolved against any of names
+     * @param names lowercase class, function or constant names
+     */
+    dependents(names: string[]) {
+        let uris = new Set<string>();
+        let summaries: ReferenceTableSummary[];
+        for (let n = 0, l = names.length; n < l; ++n) {
+            summaries = this._dependencyIndex.find(names[n]);
+            for (let k = 0, j = summaries.length; k < j; ++k) {
+                uris.add(summaries[k].uri);
+            }
+        }
+        return Array.from(uris);
+    }
+
+    /**
+     * Adds cached summaries. Summaries of already known uris are ignored
+     * so that the summaries of each workspace folder can be merged.
+     * @param data
+     */
     fromJSON(data:ReferenceTableSummary[]) {
-        this._summaryIndex = new SortedList<ReferenceTableSummary>(ReferenceTableSummary.compare, data);
-        let items = this._summaryIndex.items;
+
         let item:ReferenceTableSummary;
-        for(let n = 0; n < items.length; ++n) {
-            item = items[n];
-            this._nameIndex.add(item);
+
+        if (!this._summaryIndex.length) {
+            this._summaryIndex = new SortedList<ReferenceTableSummary>(ReferenceTableSummary.compare, data);
+            let items = this._summaryIndex.items;
+            for(let n = 0; n < items.length; ++n) {
+                item = items[n];
+                this._nameIndex.add(item);
+                this._dependencyIndex.add(item);
+            }
+            return;
+        }
+
+        for (let n = 0; n < data.length; ++n) {
+            item = data[n];
+            if (!this._summaryIndex.find(ReferenceTableSummary.uriCompareFn(item.uri))) {
+                this._summaryIndex.add(item);
+                this._nameIndex.add(item);
+                this._dependencyIndex.add(item);
+            }
         }
+
     }
 
     toJSON() {
@@ -324,7 +399,11 @@ export class ReferenceStore {
             return Promise.resolve<ReferenceTable>(table);
         } else {
             return this._cache.read(uri).then((obj) => {
-                return Promise.resolve<ReferenceTable>(new ReferenceTable(uri, obj));
+                if (!obj) {
+                    return Promise.reject<ReferenceTable>(`${uri} not found in reference cache`);
+                }
+                //tables are cached as {_uri, _root}
+                return Promise.resolve<ReferenceTable>(new ReferenceTable(uri, obj._root));
             });
         }
     }
@@ -373,16 +452,19 @@ class ReferencesVisitor implements TreeVisitor<Scope | Reference> {
 class ReferenceTableSummaryVisitor implements TreeVisitor<Scope | Reference> {
 
     private identifiers: Set<string>;
+    private dependencies: Set<string>;
 
     constructor(private uri: string) {
         this.identifiers = new Set<string>();
+        this.dependencies = new Set<string>();
     }
 
     get referenceTableSummary(): ReferenceTableSummary {
-        return ReferenceTableSummary.create(this.uri, Array.from(this.identifiers));
+        return ReferenceTableSummary.create(this.uri, Array.from(this.identifiers), Array.from(this.dependencies));
     }
 
     preorder(node: Scope | Reference, spine: (Scope | Reference)[]) {
+        this._addDependencies(<Reference>node);
         if (this._shouldIndex(node)) {
             let name = (<Reference>node).name;
             let altName = (<Reference>node).altName;
@@ -399,6 +481,39 @@ class ReferenceTableSummaryVisitor implements TreeVisitor<Scope | Reference> {
         return true;
     }
 
+    private _addDependencies(ref: Reference) {
+        switch (ref.kind) {
+            case SymbolKind.Class:
+            case SymbolKind.Interface:
+            case SymbolKind.Trait:
+            case SymbolKind.Constructor:
+            case SymbolKind.Function:
+            case SymbolKind.Constant:
+                this._addDependency(ref.name);
+                break;
+            case SymbolKind.Method:
+            case SymbolKind.Property:
+            case SymbolKind.ClassConstant:
+                if (ref.scope) {
+                    //scope may be a union of types with generic arguments
+                    TypeString.nonGeneric(ref.scope).split('|').forEach(this._addDependency);
+                }
+                break;
+            default:
+                break;
+        }
+    }
+
+    private _addDependency = (name: string) => {
+        name = name.trim().toLowerCase();
+        if (name[0] === '\\') {
+            name = name.slice(1);
+        }
+        if (name && name !== 'static' && name !== 'self' && name !== 'parent') {
+            this.dependencies.add(name);
+        }
+    };
+
     private _shouldIndex(node: Scope | Reference) {
         switch ((<Reference>node).kind) {
             case undefined:
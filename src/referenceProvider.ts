@@ -11,7 +11,9 @@ import { SymbolStore, SymbolTable } from './symbolStore';
 import { PhpSymbol, SymbolKind, SymbolModifier, SymbolIdentifier } from './symbol';
 import { MemberMergeStrategy, TypeAggregate } from './typeAggregate';
 import { Reference, ReferenceStore, ReferenceTable, Scope } from './reference';
-import { Predicate, TreeVisitor, TreeTraverser } from './types';
+import { Predicate, TreeVisitor, TreeTraverser, ProgressFn } from './types';
+import { CancellationToken } from 'vscode-jsonrpc';
+import { TypeString } from './typeString';
 import * as util from './util';
 
 export class ReferenceProvider {
@@ -20,7 +22,15 @@ export class ReferenceProvider {
 
     }
 
-    provideReferenceLocations(uri: string, position: Position, referenceContext: ReferenceContext) {
+    /**
+     * 
+     * @param uri 
+     * @param position 
+     * @param referenceContext 
+     * @param token resolves to an empty array when cancelled
+     * @param progressFn called with the number of reference tables searched
+     */
+    provideReferenceLocations(uri: string, position: Position, referenceContext: ReferenceContext, token?: CancellationToken, progressFn?: ProgressFn) {
 
         let locations: Location[] = [];
         let doc = this.documentStore.find(uri);
@@ -45,7 +55,7 @@ export class ReferenceProvider {
             return Promise.resolve(locations);
         }
 
-        return this.provideReferences(symbols, table, referenceContext.includeDeclaration).then((refs) => {
+        return this.provideReferences(symbols, table, referenceContext.includeDeclaration, token, progressFn).then((refs) => {
             return refs.map((v) => {
                 return v.location;
             })
@@ -58,8 +68,10 @@ export class ReferenceProvider {
      * @param symbols must be base symbols where kind is method, class const or prop
      * @param table 
      * @param includeDeclaration 
+     * @param token 
+     * @param progressFn 
      */
-    provideReferences(symbols: PhpSymbol[], table: ReferenceTable, includeDeclaration: boolean): Promise<Reference[]> {
+    provideReferences(symbols: PhpSymbol[], table: ReferenceTable, includeDeclaration: boolean, token?: CancellationToken, progressFn?: ProgressFn): Promise<Reference[]> {
 
         let refs: Reference[] = [];
         let provideRefsFn = this._provideReferences;
@@ -68,9 +80,13 @@ export class ReferenceProvider {
 
             let onResolve = (r:Reference[]) => {
                 Array.prototype.push.apply(refs, r);
+                if (token && token.isCancellationRequested) {
+                    resolve([]);
+                    return;
+                }
                 let s = symbols.pop();
                 if(s) {
-                    provideRefsFn(s, table).then(onResolve);
+                    provideRefsFn(s, table, token, progressFn).then(onResolve);
                 } else {
                     resolve(Array.from(new Set<Reference>(refs)));
                 }
@@ -82,7 +98,7 @@ export class ReferenceProvider {
 
     }
 
-    private _provideReferences = (symbol: PhpSymbol, table: ReferenceTable): Promise<Reference[]> => {
+    private _provideReferences = (symbol: PhpSymbol, table: ReferenceTable, token?: CancellationToken, progressFn?: ProgressFn): Promise<Reference[]> => {
 
         switch (symbol.kind) {
             case SymbolKind.Parameter:
@@ -93,20 +109,20 @@ export class ReferenceProvider {
             case SymbolKind.Trait:
             case SymbolKind.Function:
             case SymbolKind.Constant:
-                return this.refStore.find(symbol.name);
+                return this.refStore.find(symbol.name, undefined, token, progressFn);
             case SymbolKind.Property:
-                return this._propertyReferences(symbol, table);
+                return this._propertyReferences(symbol, table, token, progressFn);
             case SymbolKind.ClassConstant:
-                return this._classConstantReferences(symbol, table);
+                return this._classConstantReferences(symbol, table, token, progressFn);
             case SymbolKind.Method:
-                return this._methodReferences(symbol, table);
+                return this._methodReferences(symbol, table, token, progressFn);
             default:
                 return Promise.resolve<Reference[]>([]);
         }
 
     }
 
-    private _methodReferences(symbol: PhpSymbol, table: ReferenceTable) {
+    private _methodReferences(symbol: PhpSymbol, table: ReferenceTable, token?: CancellationToken, progressFn?: ProgressFn) {
 
         if ((symbol.modifiers & SymbolModifier.Private) > 0) {
             let lcScope = symbol.scope ? symbol.scope.toLowerCase() : '';
@@ -116,11 +132,11 @@ export class ReferenceProvider {
             };
             return Promise.resolve(this._symbolRefsInTableScope(symbol, table, fn));
         } else {
-            return this.refStore.find(symbol.name, this._createMemberReferenceFilterFn(symbol));
+            return this.refStore.find(symbol.name, this._createMemberReferenceFilterFn(symbol), token, progressFn);
         }
     }
 
-    private _classConstantReferences(symbol: PhpSymbol, table: ReferenceTable) {
+    private _classConstantReferences(symbol: PhpSymbol, table: ReferenceTable, token?: CancellationToken, progressFn?: ProgressFn) {
 
         if ((symbol.modifiers & SymbolModifier.Private) > 0) {
             let lcScope = symbol.scope ? symbol.scope.toLowerCase() : '';
@@ -129,11 +145,11 @@ export class ReferenceProvider {
             };
             return Promise.resolve(this._symbolRefsInTableScope(symbol, table, fn));
         } else {
-            return this.refStore.find(symbol.name, this._createMemberReferenceFilterFn(symbol));
+            return this.refStore.find(symbol.name, this._createMemberReferenceFilterFn(symbol), token, progressFn);
         }
     }
 
-    private _propertyReferences(symbol: PhpSymbol, table: ReferenceTable) {
+    private _propertyReferences(symbol: PhpSymbol, table: ReferenceTable, token?: CancellationToken, progressFn?: ProgressFn) {
 
         let name = symbol.name;
         if ((symbol.modifiers & SymbolModifier.Private) > 0) {
@@ -143,7 +159,7 @@ export class ReferenceProvider {
             };
             return Promise.resolve(this._symbolRefsInTableScope(symbol, table, fn));
         } else {
-            return this.refStore.find(name, this._createMemberReferenceFilterFn(symbol));
+            return this.refStore.find(name, this._createMemberReferenceFilterFn(symbol), token, progressFn);
         }
 
     }
@@ -164,12 +180,13 @@ export class ReferenceProvider {
                 return false;
             }
 
-            let lcScope = r.scope.toLowerCase();
+            let scope = TypeString.nonGeneric(r.scope);
+            let lcScope = scope.toLowerCase();
             if (map[lcScope] !== undefined) {
                 return map[lcScope];
             }
 
-            let aggregateType = TypeAggregate.create(store, r.scope);
+            let aggregateType = TypeAggregate.create(store, scope);
             if (!aggregateType) {
                 return map[lcScope] = false;
             }
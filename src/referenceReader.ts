@@ -41,6 +41,87 @@ function symbolsToTypeReduceFn(prev: string, current: PhpSymbol, index: number,
     return TypeString.merge(prev, PhpSymbol.type(current));
 }
 
+/**
+ * The type of a function or method call with the templates of the function or method
+ * inferred from the types of the arguments
+ * @param s
+ * @param argumentTypes
+ */
+function callType(s: PhpSymbol, argumentTypes: string[]) {
+
+    let type = PhpSymbol.type(s);
+    if (!type || !s.templates || !s.templates.length) {
+        return type;
+    }
+
+    let names = s.templates.map((x) => { return x.name; });
+    let types: { [name: string]: string } = {};
+    let params = PhpSymbol.filterChildren(s, (x) => { return x.kind === SymbolKind.Parameter; });
+
+    for (let n = 0, l = Math.min(params.length, argumentTypes.length); n < l; ++n) {
+        TypeString.inferTemplateTypes(PhpSymbol.type(params[n]), argumentTypes[n], names, types);
+    }
+
+    for (let n = 0, l = s.templates.length; n < l; ++n) {
+        if (types[s.templates[n].name] === undefined) {
+            types[s.templates[n].name] = s.templates[n].type || 'mixed';
+        }
+    }
+
+    return TypeString.substitute(type, types);
+
+}
+
+interface TypeCheck {
+    //the type asserted when the types of a variable are unknown or mixed
+    type: string;
+    test: Predicate<string>;
+}
+
+function typeNameTest(names: string[]) {
+    return (type: string) => {
+        return names.indexOf(type.toLowerCase()) > -1;
+    };
+}
+
+function isArrayType(type: string) {
+    return type.slice(-2) === '[]' || ['array', 'list'].indexOf(TypeString.genericName(type).toLowerCase()) > -1;
+}
+
+function isObjectType(type: string) {
+    return type.toLowerCase() === 'object' || TypeString.atomicClassArray(type).length > 0;
+}
+
+/**
+ * Type checking functions that narrow the type of their argument
+ */
+const typeCheckFunctions: { [name: string]: TypeCheck } = {
+    'is_string': { type: 'string', test: typeNameTest(['string']) },
+    'is_int': { type: 'int', test: typeNameTest(['int', 'integer']) },
+    'is_integer': { type: 'int', test: typeNameTest(['int', 'integer']) },
+    'is_long': { type: 'int', test: typeNameTest(['int', 'integer']) },
+    'is_float': { type: 'float', test: typeNameTest(['float', 'double']) },
+    'is_double': { type: 'float', test: typeNameTest(['float', 'double']) },
+    'is_bool': { type: 'bool', test: typeNameTest(['bool', 'boolean', 'true', 'false']) },
+    'is_null': { type: 'null', test: typeNameTest(['null']) },
+    'is_resource': { type: 'resource', test: typeNameTest(['resource']) },
+    'is_callable': { type: 'callable', test: typeNameTest(['callable', 'closure']) },
+    'is_array': { type: 'array', test: isArrayType },
+    'is_object': { type: 'object', test: isObjectType }
+};
+
+function isTrivia(node: Phrase | Token) {
+    return ParsedDocument.isToken(node, [TokenType.Whitespace, TokenType.Comment, TokenType.DocumentComment]);
+}
+
+function nonTriviaChildren(node: Phrase | Token) {
+    return ParsedDocument.filterChildren(<Phrase>node, (x) => { return !isTrivia(x); });
+}
+
+function isShortCircuitOperator(node: Phrase | Token) {
+    return ParsedDocument.isToken(node, [TokenType.AmpersandAmpersand, TokenType.And, TokenType.BarBar, TokenType.Or]);
+}
+
 export class ReferenceReader implements TreeVisitor<Phrase | Token> {
 
     private _transformStack: NodeTransform[];
@@ -53,6 +134,10 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
         return (x.kind & mask) > 0 && !(x.modifiers & SymbolModifier.Magic);
     };
     private _lastVarTypehints: Tag[];
+    //types of variables when the conditions of the if and elseif clauses read so far are false
+    private _elseTypesStack: { [name: string]: string }[];
+    //functions and methods being read that have return types inferred
+    private _inferredReturnTypeStack: PhpSymbol[];
 
     constructor(
         public doc: ParsedDocument,
@@ -62,7 +147,10 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
         this._transformStack = [];
         this._variableTable = new VariableTable();
         this._classStack = [];
-        this._symbols = this.symbolStore.getNamedSymbol(doc.uri);
+        this._elseTypesStack = [];
+        this._inferredReturnTypeStack = [];
+        //copied as symbols are consumed while reading and references may be read again
+        this._symbols = this.symbolStore.getNamedSymbol(doc.uri).slice();
         this._scopeStack = [Scope.create(lsp.Location.create(this.doc.uri, util.cloneRange(this._symbols.shift().location.range)))]; //file/root node
 
         const globalVariables = this.symbolStore.getGlobalVariables();
@@ -190,23 +278,41 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
                 break;
 
             case PhraseType.AnonymousFunctionCreationExpression:
-                this._anonymousFunctionCreationExpression(<Phrase>node);
-                this._transformStack.push(null);
+                {
+                    let s = this._anonymousFunctionCreationExpression(<Phrase>node);
+                    this._transformStack.push(parentTransform ? new AnonymousFunctionCreationExpressionTransform(s) : null);
+                }
                 break;
 
             case PhraseType.IfStatement:
+                this._transformStack.push(null);
+                this._variableTable.pushBranch();
+                this._elseTypesStack.push({});
+                break;
+
             case PhraseType.SwitchStatement:
+            case PhraseType.TryStatement:
+            case PhraseType.WhileStatement:
+            case PhraseType.DoStatement:
+            case PhraseType.ForStatement:
                 this._transformStack.push(null);
                 this._variableTable.pushBranch();
                 break;
 
             case PhraseType.CaseStatement:
             case PhraseType.DefaultStatement:
+            case PhraseType.FinallyClause:
+                this._transformStack.push(null);
+                this._variableTable.popBranch();
+                this._variableTable.pushBranch();
+                break;
+
             case PhraseType.ElseIfClause:
             case PhraseType.ElseClause:
                 this._transformStack.push(null);
                 this._variableTable.popBranch();
                 this._variableTable.pushBranch();
+                this._setVariableTypes(this._elseTypesStack[this._elseTypesStack.length - 1]);
                 break;
 
             case PhraseType.SimpleAssignmentExpression:
@@ -218,8 +324,13 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
                 this._transformStack.push(new InstanceOfExpressionTransform());
                 break;
 
+            case PhraseType.ReturnStatement:
+                this._transformStack.push(new ReturnStatementTransform());
+                break;
+
             case PhraseType.ForeachStatement:
                 this._transformStack.push(new ForeachStatementTransform());
+                this._variableTable.pushBranch();
                 break;
 
             case PhraseType.ForeachCollection:
@@ -232,6 +343,8 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
 
             case PhraseType.CatchClause:
                 this._transformStack.push(new CatchClauseTransform());
+                this._variableTable.popBranch();
+                this._variableTable.pushBranch();
                 break;
 
             case PhraseType.CatchNameList:
@@ -335,6 +448,14 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
                 this._transformStack.push(new ScopedMemberNameTransform(this.doc.nodeLocation(node)));
                 break;
 
+            case PhraseType.ArgumentExpressionList:
+                if (parentTransform) {
+                    this._transformStack.push(new ArgumentExpressionListTransform());
+                } else {
+                    this._transformStack.push(null);
+                }
+                break;
+
             case PhraseType.Identifier:
                 if (parentTransform) {
                     this._transformStack.push(new IdentifierTransform());
@@ -402,6 +523,14 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
                 }
                 break;
 
+            case PhraseType.ConstantAccessExpression:
+                if (parentTransform) {
+                    this._transformStack.push(new ConstantAccessExpressionTransform());
+                } else {
+                    this._transformStack.push(null);
+                }
+                break;
+
             case PhraseType.EncapsulatedExpression:
                 if (parentTransform) {
                     this._transformStack.push(new EncapsulatedExpressionTransform());
@@ -412,7 +541,20 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
 
             case undefined:
                 //tokens
-                if (parentTransform && (<Token>node).tokenType > TokenType.EndOfFile && (<Token>node).tokenType < TokenType.Equals) {
+                if (ParsedDocument.isPhrase(parent, [PhraseType.LogicalExpression]) && isShortCircuitOperator(node)) {
+                    //the right operand is only evaluated when the left operand is true for && and false for ||
+                    let value = ParsedDocument.isToken(node, [TokenType.AmpersandAmpersand, TokenType.And]);
+                    let types = this._typeGuards(nonTriviaChildren(parent)[0], value, {});
+                    this._variableTable.pushBranch();
+                    this._setVariableTypes(types);
+                }
+
+                if (
+                    parentTransform && (
+                        ((<Token>node).tokenType > TokenType.EndOfFile && (<Token>node).tokenType < TokenType.Equals) ||
+                        ((<Token>node).tokenType === TokenType.Comma && parentTransform.phraseType === PhraseType.ArgumentExpressionList)
+                    )
+                ) {
                     parentTransform.push(new TokenTransform(<Token>node, this.doc));
                     if (parentTransform.phraseType === PhraseType.CatchClause && (<Token>node).tokenType === TokenType.VariableName) {
                         this._variableTable.setVariable((<CatchClauseTransform>parentTransform).variable);
@@ -448,6 +590,7 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
             return;
         }
 
+        let parent = spine.length ? spine[spine.length - 1] : null;
         let transform = this._transformStack.pop();
         let parentTransform = this._transformStack.length ? this._transformStack[this._transformStack.length - 1] : null;
         let scope = this._scopeStack.length ? this._scopeStack[this._scopeStack.length - 1] : null;
@@ -503,8 +646,50 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
                 this._variableTable.setVariables((<SimpleAssignmentExpressionTransform>transform).variables);
                 break;
 
-            case PhraseType.InstanceOfExpression:
-                this._variableTable.setVariable((<InstanceOfExpressionTransform>transform).variable);
+            case PhraseType.LogicalExpression:
+                if (isShortCircuitOperator(nonTriviaChildren(node)[1])) {
+                    this._variableTable.discardBranch();
+                }
+                break;
+
+            case PhraseType.FunctionCallExpression:
+                if (this._functionName(<Phrase>node) === 'assert' && ParsedDocument.isPhrase(parent, [PhraseType.ExpressionStatement])) {
+                    let args = ParsedDocument.findChild(<Phrase>node, (x) => {
+                        return ParsedDocument.isPhrase(x, [PhraseType.ArgumentExpressionList]);
+                    });
+                    this._setVariableTypes(this._typeGuards(nonTriviaChildren(args)[0], true, {}));
+                }
+                break;
+
+            case PhraseType.ReturnStatement:
+                this._inferReturnType((<ReturnStatementTransform>transform).type);
+                this._variableTable.exitBranch(BranchExit.Return);
+                break;
+
+            case PhraseType.ThrowStatement:
+                this._variableTable.exitBranch(BranchExit.Return);
+                break;
+
+            case PhraseType.YieldExpression:
+            case PhraseType.YieldFromExpression:
+                {
+                    let s = this._inferredReturnTypeStack[this._inferredReturnTypeStack.length - 1];
+                    if (s) {
+                        s.type = 'Generator';
+                        s.modifiers |= SymbolModifier.Inferred;
+                    }
+                }
+                break;
+
+            case PhraseType.ExitIntrinsic:
+                if (ParsedDocument.isPhrase(parent, [PhraseType.ExpressionStatement])) {
+                    this._variableTable.exitBranch(BranchExit.Return);
+                }
+                break;
+
+            case PhraseType.BreakStatement:
+            case PhraseType.ContinueStatement:
+                this._variableTable.exitBranch(BranchExit.Break);
                 break;
 
             case PhraseType.ForeachValue:
@@ -512,9 +697,38 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
                 break;
 
             case PhraseType.IfStatement:
+                {
+                    let elseTypes = this._elseTypesStack.pop();
+                    this._variableTable.popBranch();
+                    if (!ParsedDocument.findChild(<Phrase>node, (x) => { return ParsedDocument.isPhrase(x, [PhraseType.ElseClause]); })) {
+                        //implicit else
+                        this._variableTable.pushBranch();
+                        this._setVariableTypes(elseTypes);
+                        this._variableTable.popBranch();
+                    }
+                    this._variableTable.pruneBranches(BranchExit.Break);
+                }
+                break;
+
+            case PhraseType.TryStatement:
+                this._variableTable.popBranch();
+                this._variableTable.pruneBranches(BranchExit.Break);
+                break;
+
             case PhraseType.SwitchStatement:
                 this._variableTable.popBranch();
-                this._variableTable.pruneBranches();
+                this._variableTable.pruneBranches(BranchExit.Return);
+                break;
+
+            case PhraseType.ForeachStatement:
+            case PhraseType.WhileStatement:
+            case PhraseType.DoStatement:
+            case PhraseType.ForStatement:
+                this._variableTable.popBranch();
+                //loop body may not run
+                this._variableTable.pushBranch();
+                this._variableTable.popBranch();
+                this._variableTable.pruneBranches(BranchExit.Return);
                 break;
 
             case PhraseType.ClassDeclaration:
@@ -532,12 +746,255 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
             case PhraseType.AnonymousFunctionCreationExpression:
                 this._scopeStack.pop();
                 this._variableTable.popScope();
+                this._inferredReturnTypeStack.pop();
+                break;
+
+            default:
+                break;
+        }
+
+        if (
+            ParsedDocument.isPhrase(parent, [PhraseType.IfStatement, PhraseType.ElseIfClause, PhraseType.WhileStatement]) &&
+            nonTriviaChildren(parent)[2] === node
+        ) {
+            //condition
+            let trueTypes = this._typeGuards(node, true, {});
+            if ((<Phrase>parent).phraseType !== PhraseType.WhileStatement) {
+                Object.assign(this._elseTypesStack[this._elseTypesStack.length - 1], this._typeGuards(node, false, {}));
+            }
+            this._setVariableTypes(trueTypes);
+        }
+
+    }
+
+    /**
+     * The symbol if it has no declared return type so that one is to be inferred from its body
+     * @param s
+     */
+    private _returnTypeInferenceSymbol(s: PhpSymbol) {
+        if (!s) {
+            return null;
+        }
+
+        if (s.modifiers & SymbolModifier.Inferred) {
+            //references read again
+            s.type = '';
+            s.modifiers &= ~SymbolModifier.Inferred;
+        }
+
+        return PhpSymbol.type(s) ? null : s;
+    }
+
+    private _inferReturnType(type: string) {
+        let s = this._inferredReturnTypeStack[this._inferredReturnTypeStack.length - 1];
+        if (!s || s.type === 'Generator') {
+            return;
+        }
+
+        //returns of unknown type and bare returns keep the inferred type from being taken as complete
+        s.type = TypeString.merge(s.type, type || 'mixed');
+        s.modifiers |= SymbolModifier.Inferred;
+    }
+
+    private _setVariableTypes(types: { [name: string]: string }) {
+        let names = Object.keys(types);
+        for (let n = 0, l = names.length; n < l; ++n) {
+            this._variableTable.setVariable(Variable.create(names[n], types[names[n]]));
+        }
+    }
+
+    /**
+     * The types of variables narrowed by a condition having value
+     * @param node condition
+     * @param value
+     * @param types narrowed types that take precedence over the variable table
+     */
+    private _typeGuards(node: Phrase | Token, value: boolean, types: { [name: string]: string }) {
+
+        let guards: { [name: string]: string } = {};
+        if (!node) {
+            return guards;
+        }
+
+        let children = nonTriviaChildren(node);
+        let typeOf = (name: string) => {
+            return types[name] !== undefined ? types[name] : this._variableTable.getType(name);
+        };
+        let guard = (name: string, type: string) => {
+            if (name && type) {
+                guards[name] = type;
+            }
+        };
+
+        switch ((<Phrase>node).phraseType) {
+
+            case PhraseType.EncapsulatedExpression:
+                return this._typeGuards(children[1], value, types);
+
+            case PhraseType.UnaryOpExpression:
+                if (ParsedDocument.isToken(children[0], [TokenType.Exclamation])) {
+                    return this._typeGuards(children[1], !value, types);
+                }
+                break;
+
+            case PhraseType.LogicalExpression:
+                {
+                    if (!isShortCircuitOperator(children[1])) {
+                        break;
+                    }
+
+                    let isAnd = ParsedDocument.isToken(children[1], [TokenType.AmpersandAmpersand, TokenType.And]);
+                    if (isAnd === value) {
+                        //both operands have value
+                        let left = this._typeGuards(children[0], value, types);
+                        let right = this._typeGuards(children[2], value, Object.assign({}, types, left));
+                        return Object.assign(left, right);
+                    }
+
+                    //either operand has value, the right evaluated only when the left does not
+                    let left = this._typeGuards(children[0], value, types);
+                    let right = this._typeGuards(children[2], value, Object.assign({}, types, this._typeGuards(children[0], !value, types)));
+                    let names = Object.keys(left);
+                    for (let n = 0, l = names.length; n < l; ++n) {
+                        if (right[names[n]] !== undefined) {
+                            guard(names[n], TypeString.merge(left[names[n]], right[names[n]]));
+                        }
+                    }
+                }
+                break;
+
+            case PhraseType.InstanceOfExpression:
+                {
+                    let name = this._variableName(children[0]);
+                    let className = this._typeDesignatorName(children[2]);
+                    if (!name || !className) {
+                        break;
+                    }
+
+                    if (value) {
+                        guard(name, className);
+                    } else {
+                        guard(name, TypeString.filter(typeOf(name), (x) => { return x.toLowerCase() !== className.toLowerCase(); }));
+                    }
+                }
+                break;
+
+            case PhraseType.EqualityExpression:
+                {
+                    let name = this._variableName(children[0]) || this._variableName(children[2]);
+                    let isNullComparison = this._isNull(children[0]) || this._isNull(children[2]);
+                    if (!name || !isNullComparison) {
+                        break;
+                    }
+
+                    let op = (<Token>children[1]).tokenType;
+                    let isEqual = op === TokenType.EqualsEqualsEquals || op === TokenType.EqualsEquals;
+                    let isIdentity = op === TokenType.EqualsEqualsEquals || op === TokenType.ExclamationEqualsEquals;
+                    if (isEqual === value && isIdentity) {
+                        guard(name, 'null');
+                    } else if (isEqual !== value) {
+                        guard(name, TypeString.filter(typeOf(name), (x) => { return x.toLowerCase() !== 'null'; }));
+                    }
+                }
+                break;
+
+            case PhraseType.FunctionCallExpression:
+                {
+                    let check = typeCheckFunctions[this._functionName(<Phrase>node)];
+                    let args = nonTriviaChildren(ParsedDocument.findChild(<Phrase>node, (x) => {
+                        return ParsedDocument.isPhrase(x, [PhraseType.ArgumentExpressionList]);
+                    }));
+                    let name = this._variableName(args[0]);
+                    if (!check || !name) {
+                        break;
+                    }
+
+                    let type = typeOf(name);
+                    if (value) {
+                        //a known type that cannot pass the check is left as is rather than widened
+                        let isUnknown = !type || !!TypeString.filter(type, (x) => { return x.toLowerCase() === 'mixed'; });
+                        guard(name, TypeString.filter(type, check.test) || (isUnknown ? check.type : ''));
+                    } else {
+                        guard(name, TypeString.filter(type, (x) => { return !check.test(x); }));
+                    }
+                }
+                break;
+
+            case PhraseType.IssetIntrinsic:
+                if (value) {
+                    let vars = nonTriviaChildren(ParsedDocument.findChild(<Phrase>node, (x) => {
+                        return ParsedDocument.isPhrase(x, [PhraseType.VariableList]);
+                    }));
+                    let name: string;
+                    for (let n = 0, l = vars.length; n < l; ++n) {
+                        name = this._variableName(vars[n]);
+                        guard(name, TypeString.filter(typeOf(name), (x) => { return x.toLowerCase() !== 'null'; }));
+                    }
+                }
+                break;
+
+            case PhraseType.EmptyIntrinsic:
+            case PhraseType.SimpleVariable:
+            case PhraseType.SimpleAssignmentExpression:
+                {
+                    //truthy
+                    let isEmpty = (<Phrase>node).phraseType === PhraseType.EmptyIntrinsic;
+                    let name = this._variableName(isEmpty ? children[2] : (<Phrase>node).phraseType === PhraseType.SimpleVariable ? node : children[0]);
+                    if (value !== isEmpty) {
+                        guard(name, TypeString.filter(typeOf(name), (x) => { return ['null', 'false'].indexOf(x.toLowerCase()) < 0; }));
+                    }
+                }
                 break;
 
             default:
                 break;
         }
 
+        return guards;
+
+    }
+
+    private _variableName(node: Phrase | Token) {
+        if (!ParsedDocument.isPhrase(node, [PhraseType.SimpleVariable])) {
+            return '';
+        }
+        let t = <Token>(<Phrase>node).children[0];
+        return ParsedDocument.isToken(t, [TokenType.VariableName]) ? this.doc.tokenText(t) : '';
+    }
+
+    private _isNull(node: Phrase | Token) {
+        return ParsedDocument.isPhrase(node, [PhraseType.ConstantAccessExpression]) && this.doc.nodeText(node).toLowerCase() === 'null';
+    }
+
+    private _functionName(node: Phrase) {
+        let name = (<Phrase>node).children[0];
+        if (!ParsedDocument.isPhrase(name, [PhraseType.QualifiedName, PhraseType.FullyQualifiedName])) {
+            return '';
+        }
+        let text = this.doc.nodeText(name).toLowerCase();
+        return text[0] === '\\' ? text.slice(1) : text;
+    }
+
+    private _typeDesignatorName(node: Phrase | Token) {
+
+        let name = nonTriviaChildren(node)[0];
+        if (!name) {
+            return '';
+        }
+
+        switch ((<Phrase>name).phraseType) {
+            case PhraseType.QualifiedName:
+                return this.nameResolver.resolveNotFullyQualified(this.doc.nodeText(name));
+            case PhraseType.FullyQualifiedName:
+                return this.doc.nodeText(name).slice(1);
+            case PhraseType.RelativeQualifiedName:
+                return this.nameResolver.resolveRelative(this.doc.nodeText(nonTriviaChildren(name).pop()));
+            case PhraseType.RelativeScope:
+                return this._currentClassName();
+            default:
+                return '';
+        }
+
     }
 
     private _currentClassName() {
@@ -576,6 +1033,8 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
         this._variableTable.pushScope(['$this']);
         let type = this._classStack.length ? this._classStack[this._classStack.length - 1] : null;
         let symbol = this._symbols.shift();
+        let inferred = this._returnTypeInferenceSymbol(symbol);
+        this._inferredReturnTypeStack.push(inferred);
 
         if (type && symbol) {
             let fn = (x: PhpSymbol) => {
@@ -583,6 +1042,10 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
             };
             //lookup method on aggregate to inherit doc
             symbol = type.members(MemberMergeStrategy.Documented, fn).shift();
+            if (inferred && symbol && PhpSymbol.type(symbol)) {
+                //inherits a documented return type
+                this._inferredReturnTypeStack[this._inferredReturnTypeStack.length - 1] = null;
+            }
             let children = symbol && symbol.children ? symbol.children : [];
             let param: PhpSymbol;
             for (let n = 0, l = children.length; n < l; ++n) {
@@ -598,6 +1061,7 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
         let symbol = this._symbols.shift();
         this._scopeStackPush(Scope.create(this.doc.nodeLocation(node)));
         this._variableTable.pushScope();
+        this._inferredReturnTypeStack.push(this._returnTypeInferenceSymbol(symbol));
 
         let children = symbol && symbol.children ? symbol.children : [];
         let param: PhpSymbol;
@@ -624,6 +1088,7 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
         }
 
         this._variableTable.pushScope(carry);
+        this._inferredReturnTypeStack.push(this._returnTypeInferenceSymbol(symbol));
 
         for (let n = 0, l = children.length; n < l; ++n) {
             s = children[n];
@@ -632,6 +1097,8 @@ export class ReferenceReader implements TreeVisitor<Phrase | Token> {
             }
         }
 
+        return symbol;
+
     }
 
     private _referenceSymbols: ReferenceSymbolDelegate = (ref) => {
@@ -916,6 +1383,38 @@ class ForeachCollectionTransform implements TypeNodeTransform {
     }
 }
 
+class ConstantAccessExpressionTransform implements TypeNodeTransform {
+
+    phraseType = PhraseType.ConstantAccessExpression;
+    type = '';
+
+    push(transform: NodeTransform) {
+        let ref = (<ReferenceNodeTransform>transform).reference;
+        switch (ref ? PhpSymbol.notFqn(ref.altName || ref.name).toLowerCase() : '') {
+            case 'null':
+                this.type = 'null';
+                break;
+            case 'true':
+            case 'false':
+                this.type = 'bool';
+                break;
+            default:
+                break;
+        }
+    }
+
+}
+
+class ReturnStatementTransform implements TypeNodeTransform {
+
+    phraseType = PhraseType.ReturnStatement;
+    type = '';
+
+    push(transform: NodeTransform) {
+        this.type = TypeString.merge(this.type, (<TypeNodeTransform>transform).type);
+    }
+}
+
 class SimpleAssignmentExpressionTransform implements TypeNodeTransform {
 
     _variables: Variable[];
@@ -1144,23 +1643,35 @@ class SubscriptExpressionTransform implements TypeNodeTransform, VariableNodeTra
 
     phraseType = PhraseType.SubscriptExpression;
     variable: Variable;
-    type = '';
+    private _baseType = '';
+    private _key: string;
     private _pushCount = 0;
 
+    get type() {
+        return TypeString.arrayDereference(this._baseType, this._key);
+    }
+
     push(transform: NodeTransform) {
 
-        if (this._pushCount > 0) {
+        if (this._pushCount > 1) {
             return;
         }
 
-        ++this._pushCount;
+        if (this._pushCount++ > 0) {
+            //literal key of an array shape entry
+            this._key = SubscriptExpressionTransform.literalKey(transform);
+            if (this._key !== undefined && this.variable) {
+                this.variable.type = this.type;
+            }
+            return;
+        }
 
         switch (transform.phraseType) {
             case PhraseType.SimpleVariable:
                 {
                     let ref = (<SimpleVariableTransform>transform).reference;
                     if (ref) {
-                        this.type = TypeString.arrayDereference(ref.type);
+                        this._baseType = ref.type;
                         this.variable = { name: ref.name, arrayDereferenced: 1, type: this.type };
                     }
                 }
@@ -1169,7 +1680,7 @@ class SubscriptExpressionTransform implements TypeNodeTransform, VariableNodeTra
             case PhraseType.SubscriptExpression:
                 {
                     let v = (<SubscriptExpressionTransform>transform).variable;
-                    this.type = TypeString.arrayDereference((<SubscriptExpressionTransform>transform).type);
+                    this._baseType = (<SubscriptExpressionTransform>transform).type;
                     if (v) {
                         v.arrayDereferenced++;
                         this.variable = v;
@@ -1184,7 +1695,7 @@ class SubscriptExpressionTransform implements TypeNodeTransform, VariableNodeTra
             case PhraseType.ScopedCallExpression:
             case PhraseType.ScopedPropertyAccessExpression:
             case PhraseType.ArrayCreationExpression:
-                this.type = TypeString.arrayDereference((<TypeNodeTransform>transform).type);
+                this._baseType = (<TypeNodeTransform>transform).type;
                 break;
 
             default:
@@ -1192,42 +1703,38 @@ class SubscriptExpressionTransform implements TypeNodeTransform, VariableNodeTra
         }
     }
 
+    static literalKey(transform: NodeTransform) {
+        if (!(transform instanceof TokenTransform)) {
+            return undefined;
+        }
+
+        switch (transform.tokenType) {
+            case TokenType.StringLiteral:
+                return transform.text.slice(1, -1);
+            case TokenType.IntegerLiteral:
+                return transform.text;
+            default:
+                return undefined;
+        }
+    }
+
 }
 
-class InstanceOfExpressionTransform implements TypeNodeTransform, VariableNodeTransform {
+class InstanceOfExpressionTransform implements TypeNodeTransform {
 
     phraseType = PhraseType.InstanceOfExpression;
     type = 'bool';
-    private _pushCount = 0;
-    private _varName = '';
-    private _varType = '';
-
-    push(transform: NodeTransform) {
 
-        ++this._pushCount;
-        if (this._pushCount === 1) {
-            if (transform.phraseType === PhraseType.SimpleVariable) {
-                let ref = (<SimpleVariableTransform>transform).reference;
-                if (ref) {
-                    this._varName = ref.name;
-                }
-            }
-        } else if (transform.phraseType === PhraseType.InstanceofTypeDesignator) {
-            this._varType = (<TypeDesignatorTransform>transform).type;
-        }
-
-    }
-
-    get variable() {
-        return this._varName && this._varType ? { name: this._varName, arrayDereferenced: 0, type: this._varType } : null;
-    }
+    push(transform: NodeTransform) { }
 
 }
 
 class FunctionCallExpressionTransform implements TypeNodeTransform {
 
     phraseType = PhraseType.FunctionCallExpression;
-    type = '';
+    private _reference: Reference;
+    private _argumentTypes: string[] = [];
+    private _callableType = '';
 
     constructor(public referenceSymbolDelegate: ReferenceSymbolDelegate) { }
 
@@ -1236,17 +1743,55 @@ class FunctionCallExpressionTransform implements TypeNodeTransform {
             case PhraseType.FullyQualifiedName:
             case PhraseType.RelativeQualifiedName:
             case PhraseType.QualifiedName:
-                {
-                    let ref = (<ReferenceNodeTransform>transform).reference;
-                    this.type = this.referenceSymbolDelegate(ref).reduce(symbolsToTypeReduceFn, '');
-                    break;
-                }
+                this._reference = (<ReferenceNodeTransform>transform).reference;
+                break;
+
+            case PhraseType.SimpleVariable:
+                this._callableType = (<SimpleVariableTransform>transform).type;
+                break;
+
+            case PhraseType.ArgumentExpressionList:
+                this._argumentTypes = (<ArgumentExpressionListTransform>transform).types;
+                break;
 
             default:
                 break;
         }
     }
 
+    get type() {
+        if (this._callableType) {
+            let signature = TypeString.callableSignature(this._callableType);
+            return signature ? signature.returnType : '';
+        } else if (!this._reference) {
+            return '';
+        }
+        let inferred = false;
+        let type = this.referenceSymbolDelegate(this._reference).reduce((carry, s) => {
+            inferred = inferred || (s.templates && s.templates.length > 0);
+            return TypeString.merge(carry, callType(s, this._argumentTypes));
+        }, '');
+        if (inferred) {
+            this._reference.type = type;
+        }
+        return type;
+    }
+
+}
+
+class ArgumentExpressionListTransform implements NodeTransform {
+
+    phraseType = PhraseType.ArgumentExpressionList;
+    types: string[] = [''];
+
+    push(transform: NodeTransform) {
+        if (transform.tokenType === TokenType.Comma) {
+            this.types.push('');
+        } else {
+            this.types[this.types.length - 1] = (<TypeNodeTransform>transform).type || '';
+        }
+    }
+
 }
 
 class RelativeScopeTransform implements TypeNodeTransform, ReferenceNodeTransform {
@@ -1289,6 +1834,21 @@ class AnonymousClassDeclarationTransform implements TypeNodeTransform {
 
 }
 
+class AnonymousFunctionCreationExpressionTransform implements TypeNodeTransform {
+
+    phraseType = PhraseType.AnonymousFunctionCreationExpression;
+
+    constructor(private _symbol: PhpSymbol) { }
+
+    push(transform: NodeTransform) { }
+
+    get type() {
+        //read after the body so that an inferred return type is included
+        return this._symbol ? PhpSymbol.closureType(this._symbol) : 'Closure';
+    }
+
+}
+
 class ObjectCreationExpressionTransform implements TypeNodeTransform {
 
     phraseType = PhraseType.ObjectCreationExpression;
@@ -1488,6 +2048,7 @@ class MemberAccessExpressionTransform implements TypeNodeTransform, ReferenceNod
 
     reference: Reference;
     private _scope = '';
+    private _argumentTypes: string[] = [];
 
     constructor(
         public phraseType: PhraseType,
@@ -1523,6 +2084,10 @@ class MemberAccessExpressionTransform implements TypeNodeTransform, ReferenceNod
                 this._scope = (<TypeNodeTransform>transform).type;
                 break;
 
+            case PhraseType.ArgumentExpressionList:
+                this._argumentTypes = (<ArgumentExpressionListTransform>transform).types;
+                break;
+
             default:
                 break;
         }
@@ -1530,7 +2095,31 @@ class MemberAccessExpressionTransform implements TypeNodeTransform, ReferenceNod
     }
 
     get type() {
-        return this.referenceSymbolDelegate(this.reference).reduce(symbolsToTypeReduceFn, '');
+
+        if (
+            this.symbolKind === SymbolKind.ClassConstant && this.reference &&
+            this.reference.name.toLowerCase() === 'class' && TypeString.atomicClassArray(this._scope).length
+        ) {
+            return `class-string<${this._scope}>`;
+        }
+
+        if (this.symbolKind !== SymbolKind.Method) {
+            return this.referenceSymbolDelegate(this.reference).reduce(symbolsToTypeReduceFn, '');
+        }
+
+        //method templates are inferred from arguments and the call type kept for later lookups
+        let inferred = false;
+        let type = this.referenceSymbolDelegate(this.reference).reduce((carry, s) => {
+            inferred = inferred || (s.templates && s.templates.length > 0);
+            return TypeString.merge(carry, callType(s, this._argumentTypes));
+        }, '');
+
+        if (inferred) {
+            this.reference.type = type;
+        }
+
+        return type;
+
     }
 
 }
@@ -1699,19 +2288,64 @@ class VariableTable {
         this._typeVariableSetStack.pop();
     }
 
+    /**
+     * pops a branch that does not contribute to variable types after it
+     */
+    discardBranch() {
+        let b = this._typeVariableSetStack.pop();
+        let node = this._typeVariableSetStack[this._typeVariableSetStack.length - 1];
+        node.branches.splice(node.branches.indexOf(b), 1);
+    }
+
+    /**
+     * marks the current branch as leaving the enclosing statement
+     */
+    exitBranch(exit: BranchExit) {
+        let node = this._typeVariableSetStack[this._typeVariableSetStack.length - 1];
+        if (node.kind === VariableSetKind.Branch && !node.exit) {
+            node.exit = exit;
+        }
+    }
+
     /**
      * consolidates variables. 
-     * each variable can be any of types discovered in branches after this.
+     * each variable can be any of types discovered in branches after this that do not exit.
+     * @param exit branches that exit with this or a stronger exit are not followed by code after the branches
      */
-    pruneBranches() {
+    pruneBranches(exit: BranchExit) {
 
         let node = this._typeVariableSetStack[this._typeVariableSetStack.length - 1];
         let branches = node.branches;
         node.branches = [];
-        for (let n = 0, l = branches.length; n < l; ++n) {
-            this._mergeSets(node, branches[n]);
+
+        let continuing = branches.filter((x) => { return x.exit < exit; });
+        if (!branches.length) {
+            return;
+        } else if (!continuing.length) {
+            //code after is only reachable via the weakest exit
+            this.exitBranch(Math.min.apply(null, branches.map((x) => { return x.exit; })));
+            return;
         }
 
+        let names = new Set<string>();
+        for (let n = 0, l = continuing.length; n < l; ++n) {
+            Object.keys(continuing[n].variables).forEach((x) => { names.add(x); });
+        }
+
+        let variables: Variable[] = [];
+        names.forEach((name) => {
+            let type = '';
+            for (let n = 0, l = continuing.length; n < l; ++n) {
+                type = TypeString.merge(
+                    type,
+                    continuing[n].variables[name] ? continuing[n].variables[name].type : this.getType(name)
+                );
+            }
+            variables.push(Variable.create(name, type));
+        });
+
+        this.setVariables(variables);
+
     }
 
     getType(varName: string) {
@@ -1738,31 +2372,25 @@ class VariableTable {
         return this._typeVariableSetStack[level];
     }
 
-    private _mergeSets(a: VariableSet, b: VariableSet) {
-
-        let keys = Object.keys(b.variables);
-        let v: Variable;
-        for (let n = 0, l = keys.length; n < l; ++n) {
-            v = b.variables[keys[n]];
-            if (a.variables[v.name]) {
-                a.variables[v.name].type = TypeString.merge(a.variables[v.name].type, v.type);
-            } else {
-                a.variables[v.name] = v;
-            }
-        }
-
-    }
-
 }
 
 const enum VariableSetKind {
     None, Scope, BranchGroup, Branch
 }
 
+/**
+ * How a branch leaves the statement it belongs to.
+ * Ordered by the number of enclosing statements left.
+ */
+const enum BranchExit {
+    None, Break, Return
+}
+
 interface VariableSet {
     kind: VariableSetKind;
     variables: { [index: string]: Variable };
     branches: VariableSet[];
+    exit: BranchExit;
 }
 
 namespace VariableSet {
@@ -1770,7 +2398,8 @@ namespace VariableSet {
         return <VariableSet>{
             kind: kind,
             variables: {},
-            branches: []
+            branches: [],
+            exit: BranchExit.None
         };
     }
 }
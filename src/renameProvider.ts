@@ -0,0 +1,267 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { Position, Range, TextEdit, WorkspaceEdit } from 'vscode-languageserver-types';
+import { ParsedDocumentStore } from './parsedDocument';
+import { SymbolStore } from './symbolStore';
+import { PhpSymbol, SymbolKind, SymbolModifier } from './symbol';
+import { MemberMergeStrategy } from './typeAggregate';
+import { Reference, ReferenceStore } from './reference';
+import { ReferenceProvider } from './referenceProvider';
+import { TextDocument } from './textDocument';
+import * as util from './util';
+import * as fs from 'fs';
+
+const builtInSymbolsUri = 'php';
+const identifierPattern = /^[a-zA-Z_\x80-\xff][a-zA-Z0-9_\x80-\xff]*$/;
+
+const renameableKindMask = SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait |
+    SymbolKind.Function | SymbolKind.Constant | SymbolKind.Method | SymbolKind.Property |
+    SymbolKind.ClassConstant | SymbolKind.Variable | SymbolKind.Parameter;
+
+export class RenameProvider {
+
+    constructor(
+        public documentStore: ParsedDocumentStore,
+        public symbolStore: SymbolStore,
+        public refStore: ReferenceStore,
+        public referenceProvider: ReferenceProvider
+    ) { }
+
+    /**
+     * Range of the name at position if it can be renamed else null
+     * @param uri
+     * @param position
+     */
+    prepareRename(uri: string, position: Position): Range {
+
+        let ref = this._referenceAtPosition(uri, position);
+        if (!ref || !this._renameSymbols(ref).length) {
+            return null;
+        }
+
+        let doc = this.documentStore.find(uri);
+        let text = doc.text;
+        return this._nameEditRange(new TextDocument(uri, text), ref.location.range, this._oldName(ref));
+
+    }
+
+    /**
+     * Text edits across all known documents that rename the symbol at position.
+     * Resolves to null if the symbol cannot be renamed.
+     * @param uri
+     * @param position
+     * @param newName
+     */
+    provideRenameEdits(uri: string, position: Position, newName: string): Promise<WorkspaceEdit> {
+
+        let ref = this._referenceAtPosition(uri, position);
+        let table = this.refStore.getReferenceTable(uri);
+        let symbols = ref ? this._renameSymbols(ref) : [];
+        newName = newName ? newName.trim() : '';
+
+        if (!symbols.length) {
+            return Promise.resolve<WorkspaceEdit>(null);
+        }
+
+        if (newName[0] === '$' && (ref.kind & (SymbolKind.Property | SymbolKind.Variable | SymbolKind.Parameter)) > 0) {
+            newName = newName.slice(1);
+        }
+
+        if (!identifierPattern.test(newName)) {
+            return Promise.resolve<WorkspaceEdit>(null);
+        }
+
+        let oldName = this._oldName(ref);
+        let kindMask = this._referenceKindMask(symbols[0]);
+
+        return this.referenceProvider.provideReferences(symbols.slice(0), table, true).then((refs) => {
+
+            let refsByUri: { [index: string]: Reference[] } = {};
+            let r: Reference;
+            for (let n = 0, l = refs.length; n < l; ++n) {
+                r = refs[n];
+                if (!(r.kind & kindMask) || !r.location) {
+                    continue;
+                }
+                if (!refsByUri[r.location.uri]) {
+                    refsByUri[r.location.uri] = [];
+                }
+                refsByUri[r.location.uri].push(r);
+            }
+
+            return this._textEdits(refsByUri, oldName, newName);
+
+        });
+
+    }
+
+    private _textEdits(refsByUri: { [index: string]: Reference[] }, oldName: string, newName: string) {
+
+        let uris = Object.keys(refsByUri);
+        let changes: { [index: string]: TextEdit[] } = {};
+
+        let editsFn = (uri: string, text: string) => {
+
+            if (text === undefined) {
+                return;
+            }
+
+            let textDocument = new TextDocument(uri, text);
+            let refs = refsByUri[uri];
+            let edits: TextEdit[] = [];
+            let seen = new Set<string>();
+            let range: Range;
+            let key: string;
+
+            for (let n = 0, l = refs.length; n < l; ++n) {
+                range = this._nameEditRange(textDocument, refs[n].location.range, oldName);
+                if (!range) {
+                    continue;
+                }
+                key = JSON.stringify(range);
+                if (seen.has(key)) {
+                    continue;
+                }
+                seen.add(key);
+                edits.push(TextEdit.replace(range, textDocument.textAtOffset(
+                    textDocument.offsetAtPosition(range.start), 1
+                ) === '$' ? '$' + newName : newName));
+            }
+
+            if (edits.length) {
+                changes[uri] = edits;
+            }
+
+        };
+
+        let promises = uris.map((uri) => {
+            return this._documentText(uri).then((text) => {
+                editsFn(uri, text);
+            });
+        });
+
+        return Promise.all(promises).then(() => {
+            return <WorkspaceEdit>{ changes: changes };
+        });
+
+    }
+
+    /**
+     * The range of the last name segment within range if it matches oldName
+     * eg Bar in \Foo\Bar. Aliases, self, static and parent do not match and are not edited.
+     */
+    private _nameEditRange(textDocument: TextDocument, range: Range, oldName: string) {
+
+        let start = textDocument.offsetAtPosition(range.start);
+        let end = textDocument.offsetAtPosition(range.end);
+        let text = textDocument.textAtOffset(start, end - start);
+        let pos = text.lastIndexOf('\\') + 1;
+        let segment = text.slice(pos);
+        let name = segment[0] === '$' ? segment.slice(1) : segment;
+
+        if (name.toLowerCase() !== oldName.toLowerCase()) {
+            return null;
+        }
+
+        return Range.create(textDocument.positionAtOffset(start + pos), range.end);
+
+    }
+
+    private _documentText(uri: string) {
+
+        let doc = this.documentStore.find(uri);
+        if (doc) {
+            return Promise.resolve(doc.text);
+        }
+
+        return new Promise<string>((resolve, reject) => {
+            fs.readFile(util.uriToPath(uri), (err, data) => {
+                resolve(err ? undefined : data.toString());
+            });
+        });
+
+    }
+
+    private _referenceAtPosition(uri: string, position: Position) {
+
+        let doc = this.documentStore.find(uri);
+        let table = this.refStore.getReferenceTable(uri);
+
+        if (!doc || !table) {
+            return undefined;
+        }
+
+        let ref = table.referenceAtPosition(position);
+        if (!ref || !(ref.kind & (renameableKindMask | SymbolKind.Constructor))) {
+            return undefined;
+        }
+
+        //for constructors rename the class
+        if (ref.kind === SymbolKind.Constructor) {
+            ref = Reference.create(SymbolKind.Class, ref.name, ref.location);
+        }
+
+        return ref;
+
+    }
+
+    /**
+     * Base symbols to find references for.
+     * Empty if any symbol in the inheritance chain is built in or magic.
+     * @param ref
+     */
+    private _renameSymbols(ref: Reference) {
+
+        let symbols = this.symbolStore.findSymbolsByReference(ref, MemberMergeStrategy.Base);
+        let related: PhpSymbol[] = [];
+        let s: PhpSymbol;
+
+        for (let n = 0, l = symbols.length; n < l; ++n) {
+            s = symbols[n];
+            related.push(s);
+            if (s.kind & (SymbolKind.Method | SymbolKind.Property | SymbolKind.ClassConstant)) {
+                Array.prototype.push.apply(related, this.symbolStore.findOverrides(s));
+            }
+        }
+
+        for (let n = 0, l = related.length; n < l; ++n) {
+            s = related[n];
+            if (
+                !(s.kind & renameableKindMask) ||
+                !s.location ||
+                s.location.uri === builtInSymbolsUri ||
+                (s.modifiers & SymbolModifier.Magic) > 0 ||
+                ((s.modifiers & SymbolModifier.Use) > 0 && s.kind !== SymbolKind.Variable)
+            ) {
+                return [];
+            }
+        }
+
+        return symbols;
+
+    }
+
+    private _oldName(ref: Reference) {
+        let name = PhpSymbol.notFqn(ref.name);
+        return name[0] === '$' ? name.slice(1) : name;
+    }
+
+    private _referenceKindMask(s: PhpSymbol) {
+        switch (s.kind) {
+            case SymbolKind.Class:
+            case SymbolKind.Interface:
+            case SymbolKind.Trait:
+                return SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait | SymbolKind.Constructor;
+            case SymbolKind.Variable:
+            case SymbolKind.Parameter:
+                return SymbolKind.Variable | SymbolKind.Parameter;
+            default:
+                return s.kind;
+        }
+    }
+
+}
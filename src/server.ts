@@ -12,14 +12,23 @@ import {
 	CompletionItem, CompletionItemKind, RequestType, TextDocumentItem,
 	PublishDiagnosticsParams, SignatureHelp, DidChangeConfigurationParams,
 	Position, TextEdit, Disposable, DocumentRangeFormattingRequest,
-	DocumentFormattingRequest, DocumentSelector, TextDocumentIdentifier
+	DocumentFormattingRequest, DocumentSelector, TextDocumentIdentifier,
+	Range, Location, DidChangeWatchedFilesNotification, Proposed,
+	CancellationToken, ResponseError, ErrorCodes, NotificationType,
+	DidChangeWatchedFilesParams, DidChangeWatchedFilesRegistrationOptions
 } from 'vscode-languageserver';
 
 import { Intelephense, IntelephenseConfig, InitialisationOptions, LanguageRange } from './intelephense';
+import { CodeActionCommand } from './codeActionProvider';
+import { TypeHierarchyItem } from './typeHierarchyProvider';
+import { CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall } from './callHierarchyProvider';
 
 // Create a connection for the server. The connection uses Node's IPC as a transport
 let connection: IConnection = createConnection(new IPCMessageReader(process), new IPCMessageWriter(process));
 let initialisedAt: [number, number];
+let supportsWorkspaceConfiguration = false;
+let supportsFormattingRegistration = false;
+let supportsWatchedFilesRegistration = false;
 
 const languageId = 'php';
 const discoverSymbolsRequest = new RequestType<{ textDocument: TextDocumentItem }, number, void, void>('discoverSymbols');
@@ -28,6 +37,16 @@ const forgetRequest = new RequestType<{ uri: string }, void, void, void>('forget
 const importSymbolRequest = new RequestType<{ uri: string, position: Position, alias?: string }, TextEdit[], void, void>('importSymbol');
 const documentLanguageRangesRequest = new RequestType<{ textDocument: TextDocumentIdentifier }, { version: number, ranges: LanguageRange[] }, void, void>('documentLanguageRanges');
 const knownDocumentsRequest = new RequestType<void, { timestamp: number, documents: string[] }, void, void>('knownDocuments');
+const prepareRenameRequest = new RequestType<TextDocumentPositionParams, Range, void, void>('textDocument/prepareRename');
+const implementationRequest = new RequestType<TextDocumentPositionParams, Location[], void, void>('textDocument/implementation');
+const prepareTypeHierarchyRequest = new RequestType<TextDocumentPositionParams, TypeHierarchyItem[], void, void>('textDocument/prepareTypeHierarchy');
+const typeHierarchySupertypesRequest = new RequestType<{ item: TypeHierarchyItem }, TypeHierarchyItem[], void, void>('typeHierarchy/supertypes');
+const typeHierarchySubtypesRequest = new RequestType<{ item: TypeHierarchyItem }, TypeHierarchyItem[], void, void>('typeHierarchy/subtypes');
+const prepareCallHierarchyRequest = new RequestType<TextDocumentPositionParams, CallHierarchyItem[], void, void>('textDocument/prepareCallHierarchy');
+const callHierarchyIncomingCallsRequest = new RequestType<{ item: CallHierarchyItem }, CallHierarchyIncomingCall[], void, void>('callHierarchy/incomingCalls');
+const callHierarchyOutgoingCallsRequest = new RequestType<{ item: CallHierarchyItem }, CallHierarchyOutgoingCall[], void, void>('callHierarchy/outgoingCalls');
+//the protocol type of this notification predates registration options
+const didChangeWatchedFilesRegistration = new NotificationType<DidChangeWatchedFilesParams, DidChangeWatchedFilesRegistrationOptions>(DidChangeWatchedFilesNotification.type.method);
 
 interface VscodeConfig extends IntelephenseConfig {
 	formatProvider: { enable: boolean }
@@ -47,7 +66,12 @@ let config: VscodeConfig = {
 		maxItems: 100
 	},
 	file: {
-		maxSize: 1000000
+		maxSize: 1000000,
+		include: ['**/*.php'],
+		exclude: ['**/.git/**', '**/node_modules/**']
+	},
+	organizeImports: {
+		group: false
 	},
 	formatProvider: {
 		enable: true
@@ -60,6 +84,11 @@ connection.onInitialize((params) => {
 	connection.console.info('Initialising');
 	let initOptions: InitialisationOptions = params;
 	initOptions.connection = connection;
+	let workspaceCapabilities = <any>(params.capabilities && params.capabilities.workspace) || {};
+	supportsWorkspaceConfiguration = !!workspaceCapabilities.configuration;
+	supportsWatchedFilesRegistration = !!(workspaceCapabilities.didChangeWatchedFiles && workspaceCapabilities.didChangeWatchedFiles.dynamicRegistration);
+	let textDocumentCapabilities = <any>(params.capabilities && params.capabilities.textDocument) || {};
+	supportsFormattingRegistration = !!(textDocumentCapabilities.formatting && textDocumentCapabilities.formatting.dynamicRegistration);
 
 	return Intelephense.initialise(initOptions).then(() => {
 		Intelephense.onPublishDiagnostics((args) => {
@@ -82,19 +111,80 @@ connection.onInitialize((params) => {
 					triggerCharacters: ['(', ',']
 				},
 				definitionProvider: true,
-				//documentFormattingProvider: true,
-				documentRangeFormattingProvider: false,
+				implementationProvider: true,
+				typeHierarchyProvider: true,
+				callHierarchyProvider: true,
+				//registered on configuration change where the client supports it
+				documentFormattingProvider: !supportsFormattingRegistration,
+				documentRangeFormattingProvider: !supportsFormattingRegistration,
 				referencesProvider: true,
 				documentLinkProvider: { resolveProvider: false },
 				hoverProvider: true,
-				documentHighlightProvider: true
+				documentHighlightProvider: true,
+				renameProvider: <any>{ prepareProvider: true },
+				codeActionProvider: true,
+				executeCommandProvider: {
+					commands: [CodeActionCommand.applyWorkspaceEdit, CodeActionCommand.organizeImports]
+				},
+				workspace: {
+					workspaceFolders: {
+						supported: true,
+						changeNotifications: true
+					}
+				}
 			}
 		}
 	});
 
 });
 
+connection.onInitialized(() => {
+	if (supportsWatchedFilesRegistration) {
+		connection.client.register(didChangeWatchedFilesRegistration, {
+			watchers: [{ globPattern: '**/*.php' }]
+		}).then(undefined, (err) => {
+			connection.console.warn(err && err.message);
+		});
+	}
+	requestWorkspaceFolderConfig();
+});
+
+connection.onDidChangeWatchedFiles((params) => {
+	Intelephense.onDidChangeWatchedFiles(params.changes);
+});
+
+connection.onNotification(Proposed.DidChangeWorkspaceFoldersNotification.type, (params) => {
+	Intelephense.onDidChangeWorkspaceFolders(params.event).then(requestWorkspaceFolderConfig);
+});
+
+/**
+ * Requests the file settings of each workspace folder where the client supports scoped configuration
+ */
+function requestWorkspaceFolderConfig() {
+
+	let uris = Intelephense.workspaceFolderUris();
+	if (!supportsWorkspaceConfiguration || !uris.length) {
+		return;
+	}
+
+	let items = uris.map((x) => {
+		return { scopeUri: x, section: 'intelephense.file' };
+	});
+
+	connection.sendRequest(Proposed.ConfigurationRequest.type, { items: items }).then((results) => {
+		for (let n = 0, l = uris.length; n < l; ++n) {
+			if (results && results[n]) {
+				Intelephense.setWorkspaceFolderConfig(uris[n], results[n]);
+			}
+		}
+	}, (err) => {
+		connection.console.warn(err && err.message);
+	});
+
+}
+
 let docFormatRegister: Thenable<Disposable> = null;
+let docFullFormatRegister: Thenable<Disposable> = null;
 
 connection.onDidChangeConfiguration((params) => {
 
@@ -104,6 +194,12 @@ connection.onDidChangeConfiguration((params) => {
 	}
 	config = settings;
 	Intelephense.setConfig(config);
+	requestWorkspaceFolderConfig();
+
+	if (!supportsFormattingRegistration) {
+		//formatting is advertised statically and requests check the setting
+		return;
+	}
 
 	let enableFormatter = config.formatProvider && config.formatProvider.enable;
 	if (enableFormatter) {
@@ -111,11 +207,18 @@ connection.onDidChangeConfiguration((params) => {
 		if (!docFormatRegister) {
 			docFormatRegister = connection.client.register(DocumentRangeFormattingRequest.type, { documentSelector });
 		}
+		if (!docFullFormatRegister) {
+			docFullFormatRegister = connection.client.register(DocumentFormattingRequest.type, { documentSelector });
+		}
 	} else {
 		if (docFormatRegister) {
 			docFormatRegister.then(r => r.dispose());
 			docFormatRegister = null;
 		}
+		if (docFullFormatRegister) {
+			docFullFormatRegister.then(r => r.dispose());
+			docFullFormatRegister = null;
+		}
 	}
 
 });
@@ -155,12 +258,16 @@ connection.onDocumentSymbol((params) => {
 	return Intelephense.documentSymbols(params.textDocument);
 });
 
-connection.onWorkspaceSymbol((params) => {
-	return Intelephense.workspaceSymbols(params.query);
+connection.onWorkspaceSymbol((params, token) => {
+	return Intelephense.workspaceSymbols(params.query, token).then((symbols) => {
+		return rejectIfCancelled(token, symbols);
+	});
 });
 
-connection.onReferences((params) => {
-	return Intelephense.provideReferences(params.textDocument, params.position, params.context);
+connection.onReferences((params, token) => {
+	return Intelephense.provideReferences(params.textDocument, params.position, params.context, token, (<any>params).workDoneToken).then((locations) => {
+		return rejectIfCancelled(token, locations);
+	});
 });
 
 connection.onCompletion((params) => {
@@ -175,10 +282,43 @@ connection.onDefinition((params) => {
 	return Intelephense.provideDefinition(params.textDocument, params.position);
 });
 
+connection.onRenameRequest((params) => {
+	return Intelephense.provideRenameEdits(params.textDocument, params.position, params.newName);
+});
+
+connection.onCodeAction((params) => {
+	return Intelephense.provideCodeActions(params.textDocument, params.range);
+});
+
+connection.onExecuteCommand((params) => {
+	if (params.command === CodeActionCommand.applyWorkspaceEdit && params.arguments && params.arguments[0]) {
+		return connection.workspace.applyEdit(params.arguments[0]).then(() => { });
+	} else if (params.command === CodeActionCommand.organizeImports && params.arguments && params.arguments[0]) {
+		let uri: string = params.arguments[0];
+		let changes: { [uri: string]: TextEdit[] } = {};
+		changes[uri] = Intelephense.provideOrganizeImportsTextEdits(uri);
+		return connection.workspace.applyEdit({ changes: changes }).then(() => { });
+	}
+});
+
 connection.onDocumentRangeFormatting((params) => {
+	if (!isFormatterEnabled()) {
+		return [];
+	}
 	return Intelephense.provideDocumentRangeFormattingEdits(params.textDocument, params.range, params.options);
 });
 
+connection.onDocumentFormatting((params) => {
+	if (!isFormatterEnabled()) {
+		return [];
+	}
+	return Intelephense.provideDocumentFormattingEdits(params.textDocument, params.options);
+});
+
+function isFormatterEnabled() {
+	return !config.formatProvider || config.formatProvider.enable !== false;
+}
+
 connection.onShutdown(Intelephense.shutdown);
 
 connection.onRequest(discoverSymbolsRequest, (params) => {
@@ -212,6 +352,38 @@ connection.onRequest(knownDocumentsRequest, () => {
 	return Intelephense.knownDocuments();
 });
 
+connection.onRequest(prepareRenameRequest, (params) => {
+	return Intelephense.prepareRename(params.textDocument, params.position);
+});
+
+connection.onRequest(implementationRequest, (params) => {
+	return Intelephense.provideImplementations(params.textDocument, params.position);
+});
+
+connection.onRequest(prepareTypeHierarchyRequest, (params) => {
+	return Intelephense.prepareTypeHierarchy(params.textDocument, params.position);
+});
+
+connection.onRequest(typeHierarchySupertypesRequest, (params) => {
+	return Intelephense.typeHierarchySupertypes(params.item);
+});
+
+connection.onRequest(typeHierarchySubtypesRequest, (params) => {
+	return Intelephense.typeHierarchySubtypes(params.item);
+});
+
+connection.onRequest(prepareCallHierarchyRequest, (params) => {
+	return Intelephense.prepareCallHierarchy(params.textDocument, params.position);
+});
+
+connection.onRequest(callHierarchyIncomingCallsRequest, (params) => {
+	return Intelephense.callHierarchyIncomingCalls(params.item);
+});
+
+connection.onRequest(callHierarchyOutgoingCallsRequest, (params) => {
+	return Intelephense.callHierarchyOutgoingCalls(params.item);
+});
+
 connection.onRequest(documentLanguageRangesRequest, (params) => {
 	return Intelephense.documentLanguageRanges(params.textDocument);
 });
@@ -226,3 +398,13 @@ function elapsed(start: [number, number]) {
 	let diff = process.hrtime(start);
 	return diff[0] * 1000 + diff[1] / 1000000;
 }
+
+/**
+ * Throws a RequestCancelled error if the client cancelled the request
+ */
+function rejectIfCancelled<T>(token: CancellationToken, result: T) {
+	if (token && token.isCancellationRequested) {
+		throw new ResponseError<void>(ErrorCodes.RequestCancelled, 'Request cancelled');
+	}
+	return result;
+}
@@ -121,7 +121,9 @@ export class SignatureHelpProvider {
             labelParts.push(paramType);
         }
 
-        labelParts.push(s.name);
+        if (s.name) {
+            labelParts.push((s.modifiers & SymbolModifier.Variadic) > 0 ? '...' + s.name : s.name);
+        }
 
         if (s.value) {
             labelParts.push('= ' + s.value);
@@ -144,6 +146,10 @@ export class SignatureHelpProvider {
             case PhraseType.FunctionCallExpression:
                 if(traverser.child(this._isNamePhrase)){
                     return this.symbolStore.findSymbolsByReference(traverser.reference).shift();
+                } else if (traverser.child(this._isSimpleVariable)) {
+                    //callable or Closure typed variable
+                    let ref = traverser.reference;
+                    return ref ? PhpSymbol.fromCallableType(ref.name, ref.type) : undefined;
                 }
                 return undefined;
             case PhraseType.MethodCallExpression:
@@ -190,6 +196,10 @@ export class SignatureHelpProvider {
         }
     }
 
+    private _isSimpleVariable(node:Phrase|Token) {
+        return (<Phrase>node).phraseType === PhraseType.SimpleVariable;
+    }
+
     private _isArgExprList(node:Phrase|Token) {
         return (<Phrase>node).phraseType === PhraseType.ArgumentExpressionList;
     }
@@ -42,7 +42,9 @@ export const enum SymbolModifier {
     Anonymous = 1 << 9,
     Reference = 1 << 10,
     Variadic = 1 << 11,
-    Use = 1 << 12
+    Use = 1 << 12,
+    //return type inferred from the function body
+    Inferred = 1 << 13
 }
 
 export interface PhpSymbolDoc {
@@ -59,6 +61,14 @@ export namespace PhpSymbolDoc {
     }
 }
 
+/**
+ * A @template of a class like, function or method with optional bound (of) type
+ */
+export interface PhpSymbolTemplate {
+    name: string;
+    type?: string;
+}
+
 export interface PhpSymbol extends SymbolIdentifier {
     modifiers?: SymbolModifier;
     doc?: PhpSymbolDoc;
@@ -67,6 +77,11 @@ export interface PhpSymbol extends SymbolIdentifier {
     children?: PhpSymbol[];
     value?: string;
     location?: HashedLocation;
+    templates?: PhpSymbolTemplate[];
+    /**
+     * Types given to the templates of an associated class like by @extends or @implements
+     */
+    typeArguments?: string[];
 }
 
 export interface SymbolIdentifier {
@@ -141,6 +156,45 @@ export namespace PhpSymbol {
 
     }
 
+    /**
+     * The Closure type of a function including its signature eg Closure(int $id): User
+     */
+    export function closureType(s: PhpSymbol) {
+        let params = s.children ? s.children.filter(isParameter) : [];
+        return TypeString.callable(params.map((x) => {
+            return <TypeString.CallableParameter>{
+                type: PhpSymbol.type(x),
+                name: x.name,
+                isVariadic: (x.modifiers & SymbolModifier.Variadic) > 0,
+                isOptional: !!x.value
+            };
+        }), PhpSymbol.type(s));
+    }
+
+    /**
+     * A function symbol with the signature of a callable or Closure type
+     * @param name
+     * @param typeString
+     */
+    export function fromCallableType(name: string, typeString: string) {
+        let signature = TypeString.callableSignature(typeString);
+        if (!signature) {
+            return null;
+        }
+
+        let s = PhpSymbol.create(SymbolKind.Function, name);
+        s.type = signature.returnType;
+        s.children = signature.parameters.map((x) => {
+            let param = PhpSymbol.create(SymbolKind.Parameter, x.name);
+            param.type = x.type;
+            if (x.isVariadic) {
+                param.modifiers = SymbolModifier.Variadic;
+            }
+            return param;
+        });
+        return s;
+    }
+
     export function hasParameters(s: PhpSymbol) {
         return s.children && s.children.find(isParameter) !== undefined;
     }
@@ -177,7 +231,9 @@ export namespace PhpSymbol {
             type: s.type,
             doc: s.doc,
             scope: s.scope,
-            value: s.value
+            value: s.value,
+            templates: s.templates,
+            typeArguments: s.typeArguments
         };
     }
 
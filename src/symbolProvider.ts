@@ -7,6 +7,7 @@
 import {Location, SymbolInformation, SymbolKind as Kind} from 'vscode-languageserver-types';
 import { PhpSymbol, SymbolKind, SymbolModifier } from './symbol';
 import {SymbolStore} from './symbolStore';
+import { CancellationToken } from 'vscode-jsonrpc';
 
 const namespacedSymbolMask =
     SymbolKind.Interface |
@@ -48,17 +49,25 @@ export class SymbolProvider {
     }
 
     /**
-     * Excludes internal symbols
-     * @param query 
+     * Symbols matching query, excluding internal symbols.
+     * Returns an empty array if token is cancelled before or during matching.
+     * @param query
+     * @param token
      */
-    provideWorkspaceSymbols(query: string) {
+    provideWorkspaceSymbols(query: string, token?: CancellationToken) {
         const maxItems = 100;
-        let matches = this.symbolStore.match(query);
         let symbolInformationList: SymbolInformation[] = [];
+        if (token && token.isCancellationRequested) {
+            return symbolInformationList;
+        }
 
+        let matches = this.symbolStore.match(query);
         let s: PhpSymbol;
 
         for (let n = 0, l = matches.length; n < l && symbolInformationList.length < maxItems; ++n) {
+            if (token && token.isCancellationRequested) {
+                return [];
+            }
             s = matches[n];
             if (this.workspaceSymbolFilter(s)) {
                 symbolInformationList.push(this.toSymbolInformation(s));
@@ -370,6 +370,9 @@ export class SymbolReader implements TreeVisitor<Phrase | Token> {
 
                     parentTransform.push(new TokenTransform(<Token>node, this.document));
 
+                } else if (parentTransform && this._isParameterOrTypeModifier(<Token>node, parentNode)) {
+                    //by ref, variadic and nullable
+                    parentTransform.push(new TokenTransform(<Token>node, this.document));
                 }
                 break;
 
@@ -392,6 +395,13 @@ export class SymbolReader implements TreeVisitor<Phrase | Token> {
 
     }
 
+    private _isParameterOrTypeModifier(token: Token, parentNode: Phrase) {
+        return (
+            parentNode.phraseType === PhraseType.ParameterDeclaration &&
+            (token.tokenType === TokenType.Ampersand || token.tokenType === TokenType.Ellipsis)
+        ) || (parentNode.phraseType === PhraseType.TypeDeclaration && token.tokenType === TokenType.Question);
+    }
+
     postorder(node: Phrase | Token, spine: (Phrase | Token)[]) {
 
         if (!(<Phrase>node).phraseType) {
@@ -955,17 +965,21 @@ class InterfaceDeclarationTransform implements SymbolNodeTransform {
     phraseType = PhraseType.InterfaceDeclaration;
     symbol: PhpSymbol;
 
+    private _doc: PhpDoc;
+
     constructor(public nameResolver: NameResolver, location: HashedLocation, doc: PhpDoc, docLocation: HashedLocation) {
         this.symbol = PhpSymbol.create(SymbolKind.Interface, '', location);
         SymbolReader.assignPhpDocInfoToSymbol(this.symbol, doc, docLocation, nameResolver);
         this.symbol.children = [];
         this.symbol.associated = [];
+        this._doc = doc;
     }
 
     push(transform: NodeTransform) {
         if (transform.phraseType === PhraseType.InterfaceDeclarationHeader) {
             this.symbol.name = this.nameResolver.resolveRelative((<InterfaceDeclarationHeaderTransform>transform).name);
             this.symbol.associated = (<InterfaceDeclarationHeaderTransform>transform).extends;
+            SymbolReader.assignTypeArguments(this.symbol, this._doc, this.nameResolver);
         } else if (transform.phraseType === PhraseType.InterfaceDeclarationBody) {
             Array.prototype.push.apply(this.symbol.children, PhpSymbol.setScope((<TypeDeclarationBodyTransform>transform).declarations, this.symbol.name));
         }
@@ -1154,11 +1168,14 @@ class ClassDeclarationTransform implements SymbolNodeTransform {
     phraseType = PhraseType.ClassDeclaration;
     symbol: PhpSymbol;
 
+    private _doc: PhpDoc;
+
     constructor(public nameResolver: NameResolver, location: HashedLocation, doc: PhpDoc, docLocation: HashedLocation) {
         this.symbol = PhpSymbol.create(SymbolKind.Class, '', location);
         this.symbol.children = [];
         this.symbol.associated = [];
         SymbolReader.assignPhpDocInfoToSymbol(this.symbol, doc, docLocation, nameResolver);
+        this._doc = doc;
     }
 
     push(transform: NodeTransform) {
@@ -1170,6 +1187,7 @@ class ClassDeclarationTransform implements SymbolNodeTransform {
                 this.symbol.associated.push(transform.extends);
             }
             Array.prototype.push.apply(this.symbol.associated, transform.implements);
+            SymbolReader.assignTypeArguments(this.symbol, this._doc, this.nameResolver);
         } else if (transform.phraseType === PhraseType.ClassDeclarationBody) {
             Array.prototype.push.apply(this.symbol.children, PhpSymbol.setScope((<TypeDeclarationBodyTransform>transform).declarations, this.symbol.name));
             Array.prototype.push.apply(this.symbol.associated, (<TypeDeclarationBodyTransform>transform).useTraits);
@@ -1338,8 +1356,13 @@ class ReturnTypeTransform implements NodeTransform {
 class TypeDeclarationTransform implements NodeTransform {
 
     phraseType = PhraseType.TypeDeclaration;
-    type = '';
-    private static _scalarTypes = { 'int': 1, 'string': 1, 'bool': 1, 'float': 1, 'iterable': 1 };
+    private _type = '';
+    private _nullable = false;
+    private static _scalarTypes = { 'int': 1, 'string': 1, 'bool': 1, 'float': 1, 'iterable': 1, 'void': 1, 'object': 1 };
+
+    get type() {
+        return this._nullable && this._type ? this._type + '|null' : this._type;
+    }
 
     push(transform: NodeTransform) {
 
@@ -1348,15 +1371,17 @@ class TypeDeclarationTransform implements NodeTransform {
             case PhraseType.RelativeQualifiedName:
             case PhraseType.QualifiedName:
                 if (TypeDeclarationTransform._scalarTypes[(<NameNodeTransform>transform).unresolved.toLowerCase()] === 1) {
-                    this.type = (<NameNodeTransform>transform).unresolved;
+                    this._type = (<NameNodeTransform>transform).unresolved;
                 } else {
-                    this.type = (<NameNodeTransform>transform).name;
+                    this._type = (<NameNodeTransform>transform).name;
                 }
                 break;
 
             case undefined:
                 if (transform.tokenType === TokenType.Callable || transform.tokenType === TokenType.Array) {
-                    this.type = (<TokenTransform>transform).text;
+                    this._type = (<TokenTransform>transform).text;
+                } else if (transform.tokenType === TokenType.Question) {
+                    this._nullable = true;
                 }
                 break;
 
@@ -1560,6 +1585,7 @@ export namespace SymbolReader {
             return s;
         }
         let tag: Tag;
+        let templates: string[];
 
         switch (s.kind) {
             case SymbolKind.Property:
@@ -1574,15 +1600,18 @@ export namespace SymbolReader {
             case SymbolKind.Function:
                 tag = doc.returnTag;
                 s.doc = PhpSymbolDoc.create(doc.text);
+                templates = assignTemplates(s, doc, nameResolver);
                 if (tag) {
-                    s.doc.type = TypeString.nameResolve(tag.typeString, nameResolver);
+                    s.doc.type = TypeString.nameResolve(tag.typeString, nameResolver, templates);
                 }
                 break;
 
             case SymbolKind.Parameter:
+                //doc is that of the function or method
                 tag = doc.findParamTag(s.name);
                 if (tag) {
-                    s.doc = PhpSymbolDoc.create(tag.description, TypeString.nameResolve(tag.typeString, nameResolver));
+                    templates = doc.templateTags.map(templateTagName);
+                    s.doc = PhpSymbolDoc.create(tag.description, TypeString.nameResolve(tag.typeString, nameResolver, templates));
                 }
                 break;
 
@@ -1593,7 +1622,8 @@ export namespace SymbolReader {
                 if (!s.children) {
                     s.children = [];
                 }
-                Array.prototype.push.apply(s.children, phpDocMembers(doc, docLocation, nameResolver));
+                templates = assignTemplates(s, doc, nameResolver);
+                Array.prototype.push.apply(s.children, phpDocMembers(doc, docLocation, nameResolver, templates));
                 break;
             
             case SymbolKind.GlobalVariable:
@@ -1614,28 +1644,80 @@ export namespace SymbolReader {
 
     }
 
-    export function phpDocMembers(phpDoc: PhpDoc, phpDocLoc: HashedLocation, nameResolver: NameResolver) {
+    /**
+     * Sets the type arguments of associated class likes named in @extends and @implements tags
+     * @param s class like with associated already set
+     * @param doc
+     * @param nameResolver
+     */
+    export function assignTypeArguments(s: PhpSymbol, doc: PhpDoc, nameResolver: NameResolver) {
+
+        if (!doc || !s.associated) {
+            return s;
+        }
+
+        let tags = doc.extendsTags;
+        let templates = s.templates ? s.templates.map(templateTagName) : [];
+        let type: string;
+        let lcName: string;
+        let stub: PhpSymbol;
+
+        for (let n = 0, l = tags.length; n < l; ++n) {
+            type = TypeString.nameResolve(tags[n].typeString, nameResolver, templates);
+            lcName = TypeString.genericName(type).toLowerCase();
+            stub = s.associated.find((x) => {
+                return x.name.toLowerCase() === lcName;
+            });
+            if (stub) {
+                stub.typeArguments = TypeString.genericArguments(type);
+            }
+        }
+
+        return s;
+
+    }
+
+    function assignTemplates(s: PhpSymbol, doc: PhpDoc, nameResolver: NameResolver) {
+
+        let tags = doc.templateTags;
+        if (!tags.length) {
+            return [];
+        }
+
+        let names = tags.map(templateTagName);
+        s.templates = tags.map((x) => {
+            return { name: x.name, type: TypeString.nameResolve(x.typeString, nameResolver, names) };
+        });
+        return names;
+
+    }
+
+    function templateTagName(t: { name: string }) {
+        return t.name;
+    }
+
+    export function phpDocMembers(phpDoc: PhpDoc, phpDocLoc: HashedLocation, nameResolver: NameResolver, templates?: string[]) {
 
         let magic: Tag[] = phpDoc.propertyTags;
         let symbols: PhpSymbol[] = [];
 
         for (let n = 0, l = magic.length; n < l; ++n) {
-            symbols.push(propertyTagToSymbol(magic[n], phpDocLoc, nameResolver));
+            symbols.push(propertyTagToSymbol(magic[n], phpDocLoc, nameResolver, templates));
         }
 
         magic = phpDoc.methodTags;
         for (let n = 0, l = magic.length; n < l; ++n) {
-            symbols.push(methodTagToSymbol(magic[n], phpDocLoc, nameResolver));
+            symbols.push(methodTagToSymbol(magic[n], phpDocLoc, nameResolver, templates));
         }
 
         return symbols;
     }
 
-    function methodTagToSymbol(tag: Tag, phpDocLoc: HashedLocation, nameResolver: NameResolver) {
+    function methodTagToSymbol(tag: Tag, phpDocLoc: HashedLocation, nameResolver: NameResolver, templates: string[]) {
 
         let s = PhpSymbol.create(SymbolKind.Method, tag.name, phpDocLoc);
         s.modifiers = SymbolModifier.Magic | SymbolModifier.Public;
-        s.doc = PhpSymbolDoc.create(tag.description, TypeString.nameResolve(tag.typeString, nameResolver));
+        s.doc = PhpSymbolDoc.create(tag.description, TypeString.nameResolve(tag.typeString, nameResolver, templates));
         s.children = [];
 
         if(tag.isStatic) {
@@ -1647,25 +1729,25 @@ export namespace SymbolReader {
         }
 
         for (let n = 0, l = tag.parameters.length; n < l; ++n) {
-            s.children.push(magicMethodParameterToSymbol(tag.parameters[n], phpDocLoc, nameResolver));
+            s.children.push(magicMethodParameterToSymbol(tag.parameters[n], phpDocLoc, nameResolver, templates));
         }
 
         return s;
     }
 
-    function magicMethodParameterToSymbol(p: MethodTagParam, phpDocLoc: HashedLocation, nameResolver: NameResolver) {
+    function magicMethodParameterToSymbol(p: MethodTagParam, phpDocLoc: HashedLocation, nameResolver: NameResolver, templates: string[]) {
 
         let s = PhpSymbol.create(SymbolKind.Parameter, p.name, phpDocLoc);
         s.modifiers = SymbolModifier.Magic;
-        s.doc = PhpSymbolDoc.create(undefined, TypeString.nameResolve(p.typeString, nameResolver));
+        s.doc = PhpSymbolDoc.create(undefined, TypeString.nameResolve(p.typeString, nameResolver, templates));
         return s;
 
     }
 
-    function propertyTagToSymbol(t: Tag, phpDocLoc: HashedLocation, nameResolver: NameResolver) {
+    function propertyTagToSymbol(t: Tag, phpDocLoc: HashedLocation, nameResolver: NameResolver, templates: string[]) {
         let s = PhpSymbol.create(SymbolKind.Property, t.name, phpDocLoc);
         s.modifiers = magicPropertyModifier(t) | SymbolModifier.Magic | SymbolModifier.Public;
-        s.doc = PhpSymbolDoc.create(t.description, TypeString.nameResolve(t.typeString, nameResolver));
+        s.doc = PhpSymbolDoc.create(t.description, TypeString.nameResolve(t.typeString, nameResolver, templates));
         return s;
     }
 
@@ -162,6 +162,69 @@ export class SymbolTable implements Traversable<PhpSymbol> {
 
     }
 
+    /**
+     * Lowercase names of the classes, interfaces, traits, functions and constants
+     * that are declared differently in a and b. Locations, descriptions and
+     * local variables are ignored. Either table may be undefined.
+     * @param a
+     * @param b
+     */
+    static changedDeclarations(a: SymbolTable, b: SymbolTable) {
+
+        let aShapes = declarationShapes(a);
+        let bShapes = declarationShapes(b);
+        let changed: string[] = [];
+
+        aShapes.forEach((shape, lcName) => {
+            if (bShapes.get(lcName) !== shape) {
+                changed.push(lcName);
+            }
+        });
+
+        bShapes.forEach((shape, lcName) => {
+            if (!aShapes.has(lcName)) {
+                changed.push(lcName);
+            }
+        });
+
+        return changed;
+
+    }
+
+}
+
+const declarationKindMask = SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait | SymbolKind.Function | SymbolKind.Constant;
+
+function declarationShapes(table: SymbolTable) {
+
+    let shapes = new Map<string, string>();
+    if (!table) {
+        return shapes;
+    }
+
+    let replacer = (key: string, value: any) => {
+        if (key === 'location' || key === 'description') {
+            return undefined;
+        } else if (key === 'children' && Array.isArray(value)) {
+            return value.filter((x: PhpSymbol) => {
+                return x.kind !== SymbolKind.Variable && !(x.modifiers & SymbolModifier.Anonymous);
+            });
+        }
+        return value;
+    };
+
+    let symbols = table.filter((x) => {
+        return (x.kind & declarationKindMask) > 0 && !(x.modifiers & SymbolModifier.Anonymous);
+    });
+
+    let lcName: string;
+    for (let n = 0, l = symbols.length; n < l; ++n) {
+        lcName = symbols[n].name.toLowerCase();
+        shapes.set(lcName, (shapes.get(lcName) || '') + JSON.stringify(symbols[n], replacer));
+    }
+
+    return shapes;
+
 }
 
 class ScopedVariablePruneVisitor implements TreeVisitor<PhpSymbol> {
@@ -229,7 +292,7 @@ export class SymbolStore {
         if (!symbolTable) {
             return;
         }
-        this._symbolIndex.removeMany(uri);
+        this._symbolIndex.remove(symbolTable.root);
         this._symbolCount -= symbolTable.symbolCount;
     }
 
@@ -447,7 +510,44 @@ export class SymbolStore {
 
     }
 
-    /*
+    /**
+     * Finds class like symbols that extend, implement or use fqn directly or indirectly
+     * @param fqn 
+     * @param directOnly only include types that name fqn in their declaration
+     */
+    findSubtypes(fqn: string, directOnly?: boolean) {
+
+        if (directOnly) {
+            return this._symbolIndex.findSubtypes(fqn).slice(0);
+        }
+
+        let subtypes = new Set<PhpSymbol>();
+        let seen = new Set<string>();
+        let queue = [fqn];
+        let name: string;
+        let symbols: PhpSymbol[];
+        let lcName: string;
+
+        while ((name = queue.shift())) {
+            symbols = this._symbolIndex.findSubtypes(name);
+            for (let n = 0, l = symbols.length; n < l; ++n) {
+                lcName = symbols[n].name.toLowerCase();
+                subtypes.add(symbols[n]);
+                if (!seen.has(lcName)) {
+                    seen.add(lcName);
+                    queue.push(symbols[n].name);
+                }
+            }
+        }
+
+        return Array.from(subtypes);
+
+    }
+
+    /**
+     * Finds members of subtypes that override or implement baseSymbol
+     * @param baseSymbol 
+     */
     findOverrides(baseSymbol: PhpSymbol): PhpSymbol[] {
 
         if (
@@ -463,30 +563,24 @@ export class SymbolStore {
         if (!baseType || baseType.kind === SymbolKind.Trait) {
             return [];
         }
-        let store = this;
-        let filterFn = (s: PhpSymbol) => {
 
-            if (s.kind !== baseSymbol.kind || s.modifiers !== baseSymbol.modifiers || s === baseSymbol) {
-                return false;
-            }
-
-            let type = store.find(s.scope).shift();
-            if (!type) {
-                return false;
-            }
-
-            if (PhpSymbol.isAssociated(type, baseTypeName)) {
-                return true;
-            }
+        let lcName = baseSymbol.name.toLowerCase();
+        let fn = (s: PhpSymbol) => {
+            return s.kind === baseSymbol.kind &&
+                s !== baseSymbol &&
+                !(s.modifiers & SymbolModifier.Private) &&
+                (s.kind === SymbolKind.Method ? s.name.toLowerCase() === lcName : s.name === baseSymbol.name);
+        };
 
-            let aggregate = new TypeAggregate(store, type);
-            return aggregate.isAssociated(baseTypeName);
+        let overrides: PhpSymbol[] = [];
+        let subtypes = this.findSubtypes(baseTypeName);
+        for (let n = 0, l = subtypes.length; n < l; ++n) {
+            Array.prototype.push.apply(overrides, PhpSymbol.filterChildren(subtypes[n], fn));
+        }
 
-        };
-        return this.find(baseSymbol.name, filterFn);
+        return overrides;
 
     }
-    */
 
     symbolLocation(symbol: PhpSymbol): Location {
         let table = this._tableIndex.findBySymbol(symbol);
@@ -508,6 +602,11 @@ export class SymbolStore {
 
             case SymbolKind.Function:
             case SymbolKind.Method:
+                if (ref.type) {
+                    //call type with templates inferred from arguments
+                    return ref.type;
+                }
+            //fall through
             case SymbolKind.Property:
                 return this.findSymbolsByReference(ref, MemberMergeStrategy.Documented).reduce<string>((carry, val) => {
                     return TypeString.merge(carry, PhpSymbol.type(val));
@@ -4,7 +4,7 @@
 
 'use strict';
 
-import { PhpSymbol, SymbolKind, SymbolModifier } from './symbol';
+import { PhpSymbol, SymbolKind, SymbolModifier, PhpSymbolTemplate } from './symbol';
 import { SymbolStore } from './symbolStore';
 import { Predicate } from './types';
 import * as util from './util';
@@ -22,13 +22,22 @@ export class TypeAggregate {
     private _symbol: PhpSymbol | PhpSymbol[];
     private _associated: PhpSymbol[];
     private _excludeTraits = false;
+    private _typeArguments: string[];
+    private _templateTypes: { [lcScope: string]: { [name: string]: string } };
 
-    constructor(public symbolStore: SymbolStore, symbol: PhpSymbol | PhpSymbol[], excludeTraits?:boolean) {
+    /**
+     * @param symbolStore 
+     * @param symbol 
+     * @param excludeTraits 
+     * @param typeArguments types given to the templates of symbol eg [User] for Repository<User>
+     */
+    constructor(public symbolStore: SymbolStore, symbol: PhpSymbol | PhpSymbol[], excludeTraits?:boolean, typeArguments?: string[]) {
         if (!symbol) {
             throw new Error('Invalid Argument');
         }
         this._symbol = symbol;
         this._excludeTraits = excludeTraits;
+        this._typeArguments = typeArguments || [];
     }
 
     get type() {
@@ -58,6 +67,47 @@ export class TypeAggregate {
         return this.associated(fn).length > 0;
     }
 
+    /**
+     * False if any base class, interface or trait in the hierarchy cannot be found
+     */
+    isResolved() {
+
+        let seen = new Set<string>();
+        let queue: PhpSymbol[] = [];
+        let stub: PhpSymbol;
+        let symbols: PhpSymbol[];
+        let lcName: string;
+
+        if (Array.isArray(this._symbol)) {
+            Array.prototype.push.apply(queue, this._symbol.reduce(this._symbolsAssociatedReduce, []));
+        } else if (this._symbol.associated) {
+            Array.prototype.push.apply(queue, this._symbol.associated);
+        }
+
+        while ((stub = queue.shift())) {
+
+            lcName = stub.name.toLowerCase();
+            if (seen.has(lcName)) {
+                continue;
+            }
+            seen.add(lcName);
+
+            symbols = this.symbolStore.find(stub.name, PhpSymbol.isClassLike);
+            if (!symbols.length) {
+                return false;
+            }
+
+            for (let n = 0; n < symbols.length; ++n) {
+                if (symbols[n].associated) {
+                    Array.prototype.push.apply(queue, symbols[n].associated);
+                }
+            }
+        }
+
+        return true;
+
+    }
+
     associated(filter?: Predicate<PhpSymbol>) {
         let assoc = this._getAssociated();
         return filter ? util.filter(assoc, filter) : assoc;
@@ -106,7 +156,80 @@ export class TypeAggregate {
         }
 
         //$this and static return types are resolved to fqn at this point as fqn is known
-        return this._resolveThisAndStaticReturnType(members, name);
+        //templates are substituted with the types given for this type and its associated types
+        return this._substituteTemplates(this._resolveThisAndStaticReturnType(members, name));
+
+    }
+
+    /**
+     * Map of template name to type for this type and each associated type keyed by lowercase fqn.
+     * Templates without a given type are substituted with their bound or mixed.
+     */
+    templateTypes() {
+
+        if (this._templateTypes) {
+            return this._templateTypes;
+        }
+
+        let templateTypes: { [lcScope: string]: { [name: string]: string } } = {};
+        let queue: { symbol: PhpSymbol, types: { [name: string]: string } }[] = [];
+        let item: { symbol: PhpSymbol, types: { [name: string]: string } };
+        let lcName: string;
+        let stub: PhpSymbol;
+        let symbols: PhpSymbol[];
+        let typeArguments: string[];
+
+        let roots = Array.isArray(this._symbol) ? this._symbol : [this._symbol];
+        for (let n = 0, l = roots.length; n < l; ++n) {
+            queue.push({ symbol: roots[n], types: TypeAggregate.templateTypeMap(roots[n].templates, this._typeArguments) });
+        }
+
+        while ((item = queue.shift())) {
+
+            lcName = item.symbol.name.toLowerCase();
+            if (templateTypes[lcName]) {
+                continue;
+            }
+            templateTypes[lcName] = item.types;
+
+            if (!item.symbol.associated) {
+                continue;
+            }
+
+            for (let n = 0, l = item.symbol.associated.length; n < l; ++n) {
+                stub = item.symbol.associated[n];
+                if (this._excludeTraits && stub.kind === SymbolKind.Trait) {
+                    continue;
+                }
+                typeArguments = (stub.typeArguments || []).map((x) => {
+                    return TypeString.substitute(x, item.types);
+                });
+                symbols = this.symbolStore.find(stub.name, PhpSymbol.isClassLike);
+                for (let k = 0, j = symbols.length; k < j; ++k) {
+                    queue.push({ symbol: symbols[k], types: TypeAggregate.templateTypeMap(symbols[k].templates, typeArguments) });
+                }
+            }
+
+        }
+
+        return this._templateTypes = templateTypes;
+
+    }
+
+    private _substituteTemplates(members: PhpSymbol[]) {
+
+        let templateTypes = this.templateTypes();
+        let substituted: PhpSymbol[] = [];
+        let s: PhpSymbol;
+        let types: { [name: string]: string };
+
+        for (let n = 0, l = members.length; n < l; ++n) {
+            s = members[n];
+            types = s.scope ? templateTypes[s.scope.toLowerCase()] : undefined;
+            substituted.push(types && Object.keys(types).length ? TypeAggregate.substituteTemplates(s, types) : s);
+        }
+
+        return substituted;
 
     }
 
@@ -278,20 +401,83 @@ export class TypeAggregate {
 
     }
 
+    /**
+     * 
+     * @param symbolStore 
+     * @param fqn may have generic arguments eg Repository<User>
+     */
     static create(symbolStore: SymbolStore, fqn: string) {
 
         if (!fqn) {
             return null;
         }
 
-        let symbols = symbolStore.find(fqn, PhpSymbol.isClassLike);
+        let typeArguments = TypeString.genericArguments(fqn);
+        let symbols = symbolStore.find(TypeString.genericName(fqn), PhpSymbol.isClassLike);
         if (!symbols.length) {
             return null;
         } else if(symbols.length === 1) {
-            return new TypeAggregate(symbolStore, symbols[0]);    
+            return new TypeAggregate(symbolStore, symbols[0], undefined, typeArguments);
         } else {
-            return new TypeAggregate(symbolStore, symbols);
+            return new TypeAggregate(symbolStore, symbols, undefined, typeArguments);
+        }
+
+    }
+
+    /**
+     * Maps template names to the given type arguments in order.
+     * Templates without an argument map to their bound or mixed.
+     */
+    static templateTypeMap(templates: PhpSymbolTemplate[], typeArguments: string[]) {
+        let types: { [name: string]: string } = {};
+        if (!templates) {
+            return types;
+        }
+        for (let n = 0, l = templates.length; n < l; ++n) {
+            types[templates[n].name] = typeArguments[n] || templates[n].type || 'mixed';
+        }
+        return types;
+    }
+
+    /**
+     * Clones s and its parameters with templates substituted.
+     * Templates of s itself are left for the caller to infer.
+     * @param s 
+     * @param types map of template name to type
+     */
+    static substituteTemplates(s: PhpSymbol, types: { [name: string]: string }) {
+
+        if (s.templates) {
+            types = Object.assign({}, types);
+            for (let n = 0, l = s.templates.length; n < l; ++n) {
+                delete types[s.templates[n].name];
+            }
+        }
+
+        let type = TypeString.substitute(s.type, types);
+        let docType = s.doc ? TypeString.substitute(s.doc.type, types) : '';
+        let children = s.children;
+
+        if (s.kind & (SymbolKind.Method | SymbolKind.Function)) {
+            children = s.children ? s.children.map((x) => {
+                return x.kind === SymbolKind.Parameter ? TypeAggregate.substituteTemplates(x, types) : x;
+            }) : s.children;
+            if (children && children.every((x, i) => { return x === s.children[i]; })) {
+                children = s.children;
+            }
+        }
+
+        if (type === (s.type || '') && docType === (s.doc && s.doc.type ? s.doc.type : '') && children === s.children) {
+            return s;
+        }
+
+        let clone = PhpSymbol.clone(s);
+        clone.type = type || undefined;
+        if (s.doc) {
+            clone.doc = { description: s.doc.description, type: docType };
         }
+        clone.children = children;
+        return clone;
 
     }
 
@@ -0,0 +1,123 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { Position, Range, SymbolKind as LspSymbolKind } from 'vscode-languageserver-types';
+import { PhpSymbol, SymbolKind } from './symbol';
+import { SymbolStore } from './symbolStore';
+import { SymbolProvider } from './symbolProvider';
+import { ReferenceStore, Reference } from './reference';
+
+export interface TypeHierarchyItem {
+    name: string;
+    kind: LspSymbolKind;
+    detail?: string;
+    uri: string;
+    range: Range;
+    selectionRange: Range;
+    data?: { fqn: string };
+}
+
+export class TypeHierarchyProvider {
+
+    constructor(public symbolStore: SymbolStore, public refStore: ReferenceStore, public symbolProvider: SymbolProvider) { }
+
+    /**
+     * Class like symbols at position
+     * @param uri 
+     * @param position 
+     */
+    prepareTypeHierarchy(uri: string, position: Position) {
+
+        let table = this.refStore.getReferenceTable(uri);
+        let ref = table ? table.referenceAtPosition(position) : undefined;
+
+        if (!ref || !(ref.kind & (SymbolKind.Class | SymbolKind.Interface | SymbolKind.Trait | SymbolKind.Constructor))) {
+            return [];
+        }
+
+        if (ref.kind === SymbolKind.Constructor) {
+            ref = Reference.create(SymbolKind.Class, ref.name, ref.location);
+        }
+
+        return this._toItems(this.symbolStore.findSymbolsByReference(ref));
+
+    }
+
+    /**
+     * Base class, implemented interfaces and used traits of item
+     * @param item 
+     */
+    supertypes(item: TypeHierarchyItem) {
+
+        let symbols = this._itemSymbols(item);
+        let supertypes = new Set<PhpSymbol>();
+        let s: PhpSymbol;
+
+        for (let n = 0, l = symbols.length; n < l; ++n) {
+            s = symbols[n];
+            if (!s.associated) {
+                continue;
+            }
+            for (let k = 0, j = s.associated.length; k < j; ++k) {
+                this.symbolStore.find(s.associated[k].name, PhpSymbol.isClassLike).forEach((x) => {
+                    supertypes.add(x);
+                });
+            }
+        }
+
+        return this._toItems(Array.from(supertypes));
+
+    }
+
+    /**
+     * Types that directly extend, implement or use item
+     * @param item 
+     */
+    subtypes(item: TypeHierarchyItem) {
+        let fqn = item.data && item.data.fqn ? item.data.fqn : item.name;
+        return this._toItems(this.symbolStore.findSubtypes(fqn, true));
+    }
+
+    private _itemSymbols(item: TypeHierarchyItem) {
+        let fqn = item.data && item.data.fqn ? item.data.fqn : item.name;
+        let symbols = this.symbolStore.find(fqn, PhpSymbol.isClassLike);
+        let sameUri = symbols.filter((x) => {
+            let loc = x.location ? this.symbolStore.symbolLocation(x) : undefined;
+            return loc && loc.uri === item.uri;
+        });
+        return sameUri.length ? sameUri : symbols;
+    }
+
+    private _toItems(symbols: PhpSymbol[]) {
+
+        let items: TypeHierarchyItem[] = [];
+        let s: PhpSymbol;
+
+        for (let n = 0, l = symbols.length; n < l; ++n) {
+            s = symbols[n];
+            if (!PhpSymbol.isClassLike(s) || !s.location) {
+                continue;
+            }
+            let info = this.symbolProvider.toSymbolInformation(s);
+            if (!info.location) {
+                continue;
+            }
+            items.push({
+                name: info.name,
+                kind: info.kind,
+                detail: info.containerName,
+                uri: info.location.uri,
+                range: info.location.range,
+                selectionRange: info.location.range,
+                data: { fqn: s.name }
+            });
+        }
+
+        return items;
+
+    }
+
+}
@@ -9,15 +9,39 @@ import * as util from './util';
 
 export namespace TypeString {
 
-    const classNamePattern: RegExp = /[$\\a-zA-Z_\x7f-\xff][\\a-zA-Z0-9_\x7f-\xff]*/g;
+    const classNamePattern: RegExp = /[$\\a-zA-Z_\x7f-\xff][\\a-zA-Z0-9_\x7f-\xff-]*/g;
 
     const keywords: string[] = [
         'string', 'integer', 'int', 'boolean', 'bool', 'float',
         'double', 'object', 'mixed', 'array', 'resource',
         'void', 'null', 'false', 'true', 'self', 'static',
-        'callable', '$this', 'real', 'iterable'
+        'callable', '$this', 'real', 'iterable', 'class-string', 'list'
     ];
 
+    //types that may be given an element type as array<K, V>, list<V>, iterable<V> or a shape as array{key: V}
+    const arrayTypes: string[] = ['array', 'list', 'iterable'];
+
+    const shapeEntryPattern = /^(?:'([^']*)'|"([^"]*)"|([^\s'"?:]+))\s*(\?)?\s*:(?!:)\s*([^]*)$/;
+    //text that follows a shape key eg id in array{id: int}
+    const shapeKeySuffixPattern = /^['"]?\s*\??\s*:(?!:)/;
+    //a parameter of a callable signature eg int, string $name, int ...$numbers, bool $flag=
+    const callableParameterPattern = /^([^]*?)\s*(\.\.\.)?\s*(\$[^\s=]+)?\s*(=)?$/;
+
+    /**
+     * A parameter of a callable or Closure type eg callable(int, string $name): bool
+     */
+    export interface CallableParameter {
+        type: string;
+        name: string;
+        isVariadic: boolean;
+        isOptional: boolean;
+    }
+
+    export interface CallableSignature {
+        parameters: CallableParameter[];
+        returnType: string;
+    }
+
     export function atomicClassArray(typeString:string) {
 
         if(!typeString) {
@@ -30,7 +54,7 @@ export namespace TypeString {
 
         for (let n = 0; n < types.length; ++n) {
             type = types[n];
-            if (type[type.length - 1] !== ']' && keywords.indexOf(type.toLowerCase()) < 0) {
+            if (type[type.length - 1] !== ']' && keywords.indexOf(genericName(type).toLowerCase()) < 0) {
                 classes.push(type);
             }
         }
@@ -39,7 +63,13 @@ export namespace TypeString {
 
     }
 
-    export function arrayDereference(typeString:string) {
+    /**
+     * The element type of array types in typeString
+     * @param typeString
+     * @param key the literal key accessed, used to select the type of an array shape entry.
+     * All entry types are returned if not given or not found.
+     */
+    export function arrayDereference(typeString:string, key?: string) {
 
         if(!typeString) {
             return '';
@@ -48,9 +78,12 @@ export namespace TypeString {
         let dereferenced: string[] = [];
         let types = chunk(typeString);
         let type: string;
+        let lcName: string;
+        let args: string[];
 
         for (let n = 0; n < types.length; ++n) {
             type = types[n];
+            lcName = genericName(type).toLowerCase();
 
             if (type.slice(-2) === '[]') {
                 type = type.slice(0, -2);
@@ -60,6 +93,12 @@ export namespace TypeString {
                 } else {
                     dereferenced.push(type);
                 }
+            } else if (arrayTypes.indexOf(lcName) < 0) {
+                continue;
+            } else if (type[lcName.length] === '{') {
+                Array.prototype.push.apply(dereferenced, shapeEntryTypes(type, key));
+            } else if ((args = genericArguments(type)).length) {
+                Array.prototype.push.apply(dereferenced, chunk(args[args.length - 1]));
             }
 
         }
@@ -107,6 +146,16 @@ export namespace TypeString {
         return unique(types).join('|');
     }
 
+    /**
+     * The types in a union that satisfy predicate
+     */
+    export function filter(typeString: string, predicate: (type: string) => boolean) {
+        if (!typeString) {
+            return '';
+        }
+        return chunk(typeString).filter(predicate).join('|');
+    }
+
     export function mergeMany(typeStrings:string[]){
         
         let type = '';
@@ -116,17 +165,33 @@ export namespace TypeString {
         return type;
     }
 
-    export function nameResolve(typeString:string, nameResolver: NameResolver) {
+    /**
+     * Resolves class names in typeString to fqn.
+     * Template names of the current class and those given are not resolved.
+     * @param typeString
+     * @param nameResolver
+     * @param templates names of function or method templates in scope
+     */
+    export function nameResolve(typeString:string, nameResolver: NameResolver, templates?: string[]) {
 
         if(!typeString) {
             return '';
         }
 
+        let classTemplates = nameResolver.class && nameResolver.class.templates ? nameResolver.class.templates : [];
+        let isTemplate = (name: string) => {
+            return (templates && templates.indexOf(name) > -1) ||
+                classTemplates.find((x) => { return x.name === name; }) !== undefined;
+        };
+
         let replacer = (match, offset, text) => {
 
             let lcMatch = match.toLowerCase();
 
-            if (lcMatch === 'self') {
+            if (isTemplate(match) || isShapeKey(text, offset, match) || match[0] === '$') {
+                //templates, shape keys and callable parameter names
+                return match;
+            } else if (lcMatch === 'self') {
                 return nameResolver.className;
             } else if (keywords.indexOf(lcMatch) >= 0) {
                 return match;
@@ -161,6 +226,276 @@ export namespace TypeString {
         return typeString.replace(classNamePattern, replacer);
     }
 
+    /**
+     * The type name without generic arguments, shape or signature
+     * eg Collection for Collection<User>, array for array{id: int}, Closure for Closure(int): bool
+     */
+    export function genericName(typeString: string) {
+        if (!typeString) {
+            return '';
+        }
+        let match = typeString.match(/[<{]|(?!^)\(/);
+        return match ? typeString.slice(0, match.index) : typeString;
+    }
+
+    /**
+     * The signature of the first callable or Closure type in typeString that has one
+     * eg Closure(int $id, string ...$names): User
+     */
+    export function callableSignature(typeString: string): CallableSignature {
+
+        let types = chunk(typeString);
+        let type: string;
+        let name: string;
+        let lcName: string;
+
+        for (let n = 0; n < types.length; ++n) {
+            //nullable ?Closure(int): User
+            type = types[n][0] === '?' ? types[n].slice(1) : types[n];
+            name = genericName(type);
+            lcName = name.slice(name.lastIndexOf('\\') + 1).toLowerCase();
+            if ((lcName === 'callable' || lcName === 'closure') && type[name.length] === '(') {
+                return parseSignature(type.slice(name.length));
+            }
+        }
+
+        return null;
+
+    }
+
+    /**
+     * Creates a callable type with a signature
+     * @param parameters
+     * @param returnType
+     * @param name callable or Closure
+     */
+    export function callable(parameters: CallableParameter[], returnType: string, name?: string) {
+
+        let params = parameters.map((x) => {
+            let text = x.type || '';
+            if (x.isVariadic || x.name) {
+                text += (text ? ' ' : '') + (x.isVariadic ? '...' : '') + (x.name || '');
+            }
+            return x.isOptional ? text + '=' : text;
+        });
+
+        let text = (name || 'Closure') + '(' + params.join(', ') + ')';
+        if (returnType) {
+            //unions are enclosed so that the signature remains a single type
+            text += ': ' + (chunk(returnType).length > 1 ? '(' + returnType + ')' : returnType);
+        }
+        return text;
+
+    }
+
+    /**
+     * The generic arguments of an atomic type eg ['int', 'User'] for Iterator<int, User>
+     */
+    export function genericArguments(typeString: string) {
+
+        if (!typeString) {
+            return [];
+        }
+
+        let start = typeString.indexOf('<');
+        if (start < 0 || typeString[typeString.length - 1] !== '>') {
+            return [];
+        }
+
+        return splitList(typeString.slice(start + 1, -1));
+
+    }
+
+    /**
+     * The types of the entries of an array shape eg array{id: int, user?: User}
+     * @param typeString
+     * @param key if given only the type of this entry is returned when found
+     */
+    function shapeEntryTypes(typeString: string, key?: string) {
+
+        let entries = splitList(typeString.slice(typeString.indexOf('{') + 1, -1));
+        let types: string[] = [];
+        let keyed: string[];
+        let match: RegExpMatchArray;
+        let entryKey: string;
+
+        for (let n = 0, l = entries.length; n < l; ++n) {
+            match = entries[n].match(shapeEntryPattern);
+            //entries without keys are keyed by position
+            entryKey = match ? (match[1] !== undefined ? match[1] : match[2] !== undefined ? match[2] : match[3]) : n.toString();
+            Array.prototype.push.apply(types, chunk(match ? match[5] : entries[n]));
+            if (key !== undefined && entryKey === key) {
+                keyed = chunk(match ? match[5] : entries[n]);
+            }
+        }
+
+        return keyed || types;
+
+    }
+
+    /**
+     * Splits comma separated types that are not nested in <>, {} or ()
+     */
+    function splitList(text: string) {
+
+        let items: string[] = [];
+        let depth = 0;
+        let item = '';
+        let c: string;
+
+        for (let n = 0, l = text.length; n < l; ++n) {
+            c = text[n];
+            if (c === ',' && !depth) {
+                items.push(item.trim());
+                item = '';
+                continue;
+            } else if (c === '<' || c === '(' || c === '{') {
+                ++depth;
+            } else if (c === '>' || c === ')' || c === '}') {
+                --depth;
+            }
+            item += c;
+        }
+
+        if (item.trim()) {
+            items.push(item.trim());
+        }
+
+        return items;
+
+    }
+
+    /**
+     * @param text signature beginning with the parameter list eg (int, string): bool
+     */
+    function parseSignature(text: string) {
+
+        let depth = 0;
+        let end = 0;
+
+        for (let l = text.length; end < l; ++end) {
+            if (text[end] === '(') {
+                ++depth;
+            } else if (text[end] === ')' && !--depth) {
+                break;
+            }
+        }
+
+        let parameters = splitList(text.slice(1, end)).map((x) => {
+            let match = x.match(callableParameterPattern);
+            return <CallableParameter>{
+                type: match[1],
+                name: match[3] || '',
+                isVariadic: !!match[2],
+                isOptional: !!match[4]
+            };
+        });
+
+        let returnType = text.slice(end + 1).trim();
+        if (returnType[0] === ':') {
+            returnType = returnType.slice(1).trim();
+        } else {
+            returnType = '';
+        }
+
+        //enclosed union
+        if (returnType[0] === '(' && chunk(returnType).length === 1 && returnType[returnType.length - 1] === ')') {
+            returnType = returnType.slice(1, -1);
+        }
+
+        return <CallableSignature>{
+            parameters: parameters,
+            returnType: returnType
+        };
+
+    }
+
+    function isShapeKey(text: string, offset: number, match: string) {
+        return shapeKeySuffixPattern.test(text.slice(offset + match.length));
+    }
+
+    /**
+     * Removes generic arguments from all types in typeString eg Collection|null for Collection<User>|null
+     */
+    export function nonGeneric(typeString: string) {
+        if (!typeString || !/[<{]|.\(/.test(typeString)) {
+            return typeString || '';
+        }
+        return unique(chunk(typeString).map(genericName)).join('|');
+    }
+
+    /**
+     * Replaces template names in typeString with their mapped types
+     * @param typeString
+     * @param templateTypes map of template name to type
+     */
+    export function substitute(typeString: string, templateTypes: { [name: string]: string }) {
+
+        if (!typeString || !templateTypes) {
+            return typeString || '';
+        }
+
+        let replacer = (match: string, offset: number, text: string) => {
+            let type = templateTypes[match];
+            if (type === undefined || isShapeKey(text, offset, match)) {
+                return match;
+            }
+            //keep array of union types eg (A|B)[]
+            return text[offset + match.length] === '[' && count(type) > 1 ? '(' + type + ')' : type;
+        };
+
+        return typeString.replace(classNamePattern, replacer);
+
+    }
+
+    /**
+     * Infers template types from the type of an argument given for a parameter.
+     * A parameter of type T takes the argument type and class-string<T> takes the class of a class-string argument.
+     * @param paramType
+     * @param argType
+     * @param templates template names to infer
+     * @param types inferred types are added to this map if not already present
+     */
+    export function inferTemplateTypes(paramType: string, argType: string, templates: string[], types: { [name: string]: string }) {
+
+        if (!paramType || !argType) {
+            return types;
+        }
+
+        let paramTypes = chunk(paramType);
+        let argTypes = chunk(argType);
+        let p: string;
+        let name: string;
+        let inferred: string[];
+
+        for (let n = 0, l = paramTypes.length; n < l; ++n) {
+
+            p = paramTypes[n];
+            if (genericName(p).toLowerCase() === 'class-string') {
+                name = genericArguments(p).shift();
+                inferred = argTypes.filter((x) => {
+                    return genericName(x).toLowerCase() === 'class-string';
+                }).map((x) => {
+                    return genericArguments(x).shift();
+                });
+            } else {
+                name = p;
+                inferred = argTypes.filter((x) => {
+                    return x.toLowerCase() !== 'null';
+                });
+            }
+
+            inferred = inferred.filter((x) => { return !!x; });
+            if (templates.indexOf(name) > -1 && types[name] === undefined && inferred.length) {
+                types[name] = unique(inferred).join('|');
+            }
+
+        }
+
+        return types;
+
+    }
+
     function unique(parts: string[]) {
         let set = new Set<string>(parts);
         return Array.from(set);
@@ -188,10 +523,14 @@ export namespace TypeString {
                     }
                     break;
                 case '(':
+                case '<':
+                case '{':
                     ++parentheses;
                     part += c;
                     break;
                 case ')':
+                case '>':
+                case '}':
                     --parentheses;
                     part += c;
                     break;
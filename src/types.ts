@@ -23,6 +23,13 @@ export interface Unsubscribe {
     (): void;
 }
 
+/**
+ * Called as items of a long running operation are processed
+ */
+export interface ProgressFn {
+    (done: number, total: number): void;
+}
+
 export class Event<T> {
 
     private _subscribed: EventHandler<T>[];
@@ -576,9 +583,16 @@ export class NameIndex<T> {
 
         for (let n = 0; n < suffixes.length; ++n) {
             let items = this._nameIndex.get(suffixes[n]);
-            let index = items.indexOf(item);
+            let index = items ? items.indexOf(item) : -1;
+
+            if (index < 0) {
+                continue;
+            }
 
             items.splice(index, 1);
+            if (!items.length) {
+                this._nameIndex.delete(suffixes[n]);
+            }
         }
     }
 
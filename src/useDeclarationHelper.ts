@@ -8,7 +8,7 @@ import {ParsedDocument} from './parsedDocument';
 import {SymbolTable} from './symbolStore';
 import {PhpSymbol, SymbolKind, SymbolModifier, SymbolIdentifier } from './symbol';
 import {Position, TextEdit, Range} from 'vscode-languageserver-types';
-import {TreeVisitor} from './types';
+import {TreeVisitor, TreeTraverser} from './types';
 import {Phrase, Token, PhraseType, TokenType} from 'php7parser';
 import * as util from './util';
 
@@ -24,6 +24,10 @@ export class UseDeclarationHelper {
         this._cursor = cursor;
     }
 
+    get useDeclarations() {
+        return this._useDeclarations;
+    }
+
     insertDeclarationTextEdit(symbol:SymbolIdentifier, alias?:string) {
         let afterNode = this._insertAfterNode();
 
@@ -108,6 +112,15 @@ export class UseDeclarationHelper {
 
     }
 
+    findNamespaceUseDeclarations() {
+        let traverser = new TreeTraverser<Phrase | Token>([this.doc.tree]);
+        return traverser.filter(this._isNamespaceUseDeclaration) as Phrase[];
+    }
+
+    private _isNamespaceUseDeclaration(node:Phrase|Token) {
+        return (<Phrase>node).phraseType === PhraseType.NamespaceUseDeclaration;
+    }
+
     private _isUseDeclarationSymbol(s:PhpSymbol) {
         const mask = SymbolKind.Class | SymbolKind.Function | SymbolKind.Constant;
         return (s.modifiers & SymbolModifier.Use) > 0 && (s.kind & mask) > 0;
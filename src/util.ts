@@ -181,7 +181,7 @@ export function cloneRange(range: Range): Range {
 }
 
 export function pathToUri(filePath: string): string {
-    filePath = filePath.replace('\\', '/').trim();
+    filePath = filePath.replace(/\\/g, '/').trim().replace(/^\/+/, '');
     let parts = filePath.split('/');
     // Don't %-encode the colon after a Windows drive letter
     let first = parts.shift();
@@ -202,3 +202,62 @@ export function uriToPath(uri: string)
     let url = parse_url(uri);
     return decodeURIComponent(url.path);
 }
+
+/**
+ * Converts a glob to a RegExp that matches whole / separated paths.
+ * Supports **, *, ? and {a,b} alternation.
+ * @param glob
+ */
+export function globToRegExp(glob: string) {
+
+    let pattern = '';
+    let c: string;
+    let inGroup = false;
+
+    for (let n = 0, l = glob.length; n < l; ++n) {
+        c = glob[n];
+        switch (c) {
+            case '*':
+                if (glob[n + 1] === '*') {
+                    ++n;
+                    if (glob[n + 1] === '/') {
+                        ++n;
+                        pattern += '(?:.*/)?';
+                    } else {
+                        pattern += '.*';
+                    }
+                } else {
+                    pattern += '[^/]*';
+                }
+                break;
+            case '?':
+                pattern += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                pattern += '(?:';
+                break;
+            case '}':
+                inGroup = false;
+                pattern += ')';
+                break;
+            case ',':
+                pattern += inGroup ? '|' : ',';
+                break;
+            case '/':
+                if (glob.slice(n + 1) === '**') {
+                    n += 2;
+                    pattern += '(?:/.*)?';
+                } else {
+                    pattern += '/';
+                }
+                break;
+            default:
+                pattern += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+                break;
+        }
+    }
+
+    return new RegExp('^' + pattern + '$');
+
+}
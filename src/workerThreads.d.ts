@@ -0,0 +1,34 @@
+// Minimal type definitions for the node worker_threads module (node >= 12)
+
+/// <reference types="node" />
+
+declare module 'worker_threads' {
+
+    import { EventEmitter } from 'events';
+
+    export const isMainThread: boolean;
+    export const parentPort: MessagePort | null;
+    export const workerData: any;
+
+    export class MessagePort extends EventEmitter {
+        postMessage(value: any): void;
+        close(): void;
+        unref(): void;
+    }
+
+    export interface WorkerOptions {
+        eval?: boolean;
+        workerData?: any;
+        execArgv?: string[];
+    }
+
+    export class Worker extends EventEmitter {
+        readonly threadId: number;
+        constructor(filename: string, options?: WorkerOptions);
+        postMessage(value: any): void;
+        terminate(): Promise<number>;
+        ref(): void;
+        unref(): void;
+    }
+
+}
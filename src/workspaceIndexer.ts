@@ -0,0 +1,539 @@
+/* Copyright (c) Ben Robert Mewburn
+ * Licensed under the ISC Licence.
+ */
+
+'use strict';
+
+import { TextDocumentItem } from 'vscode-languageserver-types';
+import { FileEvent, FileChangeType } from 'vscode-languageserver-protocol';
+import { Log } from './logger';
+import { ProgressFn } from './types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from './util';
+
+export interface WorkspaceFile {
+    uri: string;
+    path: string;
+    modified: number;
+    size: number;
+    /**
+     * md5 of the content when last read
+     */
+    hash?: string;
+}
+
+/**
+ * What indexing or verification did. Uris are those of discovered or forgotten files.
+ */
+export interface IndexResult {
+    files: WorkspaceFile[];
+    added: string[];
+    changed: string[];
+    removed: string[];
+    unchanged: number;
+}
+
+export interface DiscoverFn {
+    (textDocument: TextDocumentItem): number | Promise<number>;
+}
+
+/**
+ * Crawls a folder for php files and feeds them to symbol
+ * and then reference discovery
+ */
+export class WorkspaceIndexer {
+
+    private _include: RegExp[];
+    private _exclude: RegExp[];
+    private _changes: Map<string, number>;
+    private _processingChanges: Promise<void>;
+
+    /**
+     * Files as they were when last discovered keyed by uri
+     */
+    files: Map<string, WorkspaceFile>;
+
+    maxSize = 1000000;
+
+    /**
+     * Number of deleted files forgotten before yielding to pending requests
+     */
+    batchSize = 100;
+
+    /**
+     * Number of files read and discovered at once. Greater than 1 when
+     * the discover functions hand work to other threads.
+     */
+    concurrency = 1;
+
+    /**
+     * Root of the files indexed. Globs of changed files are matched relative to this.
+     */
+    rootPath: string;
+
+    /**
+     * Called for deleted files
+     */
+    forgetFn: (uri: string) => void;
+
+    /**
+     * Optional additional filter applied to directories and files, eg composer autoload paths
+     */
+    filterFn: (filePath: string, isDirectory: boolean) => boolean;
+
+    constructor(public discoverSymbolsFn: DiscoverFn, public discoverReferencesFn: DiscoverFn) {
+        this.include = ['**/*.php'];
+        this.exclude = ['**/.git/**', '**/node_modules/**'];
+        this._changes = new Map<string, number>();
+        this.files = new Map<string, WorkspaceFile>();
+    }
+
+    set include(globs: string[]) {
+        this._include = (globs || []).map(util.globToRegExp);
+    }
+
+    set exclude(globs: string[]) {
+        this._exclude = (globs || []).map(util.globToRegExp);
+    }
+
+    /**
+     * Files under rootPath that match an include glob, do not match an exclude glob
+     * and do not exceed maxSize
+     * @param rootPath
+     */
+    findFiles(rootPath: string) {
+
+        let files: WorkspaceFile[] = [];
+        let dirs = [rootPath];
+        let visited = new Set<string>();
+
+        let readDirFn = (): Promise<WorkspaceFile[]> => {
+            let dir = dirs.pop();
+            if (dir === undefined) {
+                return Promise.resolve(files.sort(this._compareFiles));
+            }
+            return this._realPath(dir).then((realPath) => {
+                //symlinked directories may lead back to a directory already read
+                if (visited.has(realPath)) {
+                    return;
+                }
+                visited.add(realPath);
+                return this._readDir(rootPath, dir, dirs, files);
+            }).then(readDirFn);
+        };
+
+        return readDirFn();
+
+    }
+
+    /**
+     * Discovers symbols in all files then references in all files.
+     * Files that are cached and unchanged since last discovered are skipped. A file is unchanged
+     * if its modified time and size match or, failing that, its content hash matches.
+     * Previously discovered files under rootPath that are no longer found are removed.
+     * @param rootPath
+     * @param isCachedFn returns true if the symbols and references of a file are held in cache
+     * @param progressFn called as files are discovered
+     */
+    index(rootPath: string, isCachedFn?: (file: WorkspaceFile) => boolean, progressFn?: ProgressFn) {
+
+        this.rootPath = rootPath;
+
+        return this.findFiles(rootPath).then((found) => {
+
+            let foundUris = new Set<string>(found.map((x) => { return x.uri; }));
+            let removed: string[] = [];
+            let retained: WorkspaceFile[] = [];
+
+            this.files.forEach((file, uri) => {
+                if (foundUris.has(uri)) {
+                    return;
+                } else if (this._isWithin(file.path, rootPath)) {
+                    removed.push(uri);
+                } else {
+                    retained.push(file);
+                }
+            });
+
+            return this._update(found, retained, removed, isCachedFn, progressFn);
+
+        });
+
+    }
+
+    /**
+     * Compares previously discovered files with the file system without crawling.
+     * Changed files are rediscovered and missing files are removed.
+     * @param isCachedFn returns true if the symbols and references of a file are held in cache
+     * @param progressFn called as files are discovered
+     */
+    verify(isCachedFn?: (file: WorkspaceFile) => boolean, progressFn?: ProgressFn) {
+
+        let previous = Array.from(this.files.values());
+        let existing: WorkspaceFile[] = [];
+        let removed: string[] = [];
+        let n = 0;
+
+        let statBatchFn = (): Promise<void> => {
+            if (n >= previous.length) {
+                return Promise.resolve();
+            }
+            let batch = previous.slice(n, n += this.batchSize).map((x) => {
+                let file: WorkspaceFile = { uri: x.uri, path: x.path, modified: 0, size: 0 };
+                return this._stat(file).then(() => {
+                    existing.push(file);
+                }).catch(() => {
+                    removed.push(file.uri);
+                });
+            });
+            return Promise.all(batch).then(statBatchFn);
+        };
+
+        return statBatchFn().then(() => {
+            return this._update(existing.sort(this._compareFiles), [], removed, isCachedFn, progressFn);
+        });
+
+    }
+
+    private _update(found: WorkspaceFile[], retained: WorkspaceFile[], removed: string[], isCachedFn?: (file: WorkspaceFile) => boolean, progressFn?: ProgressFn) {
+
+        let previous = this.files;
+        let result: IndexResult = {
+            files: found,
+            added: [],
+            changed: [],
+            removed: removed,
+            unchanged: 0
+        };
+
+        let isUnchangedStatFn = (file: WorkspaceFile) => {
+            let cached = previous.get(file.uri);
+            if (isCachedFn && cached && cached.hash && cached.modified === file.modified && cached.size === file.size && isCachedFn(file)) {
+                file.hash = cached.hash;
+                return true;
+            }
+            return false;
+        };
+
+        let isChangedContentFn = (file: WorkspaceFile) => {
+            let cached = previous.get(file.uri);
+            return !isCachedFn || !cached || !cached.hash || cached.hash !== file.hash || !isCachedFn(file);
+        };
+
+        let pending = found.filter((x) => { return !isUnchangedStatFn(x); });
+        //the reference pass total is not known until the symbol pass completes
+        let symbolsProgressFn = progressFn ? (done: number, total: number) => {
+            progressFn(done, total * 2);
+        } : undefined;
+        let referencesProgressFn = progressFn ? (done: number, total: number) => {
+            progressFn(pending.length + done, pending.length + total);
+        } : undefined;
+
+        return this._forget(removed).then(() => {
+            return this._discover(pending, this.discoverSymbolsFn, isChangedContentFn, symbolsProgressFn);
+        }).then((discovered) => {
+            result.unchanged = found.length - discovered.length;
+            for (let n = 0, l = discovered.length; n < l; ++n) {
+                (previous.has(discovered[n].uri) ? result.changed : result.added).push(discovered[n].uri);
+            }
+            return this._discover(discovered, this.discoverReferencesFn, undefined, referencesProgressFn);
+        }).then(() => {
+            this.files = new Map<string, WorkspaceFile>();
+            let files = retained.concat(found);
+            for (let n = 0, l = files.length; n < l; ++n) {
+                this.files.set(files[n].uri, files[n]);
+            }
+            return result;
+        });
+
+    }
+
+    /**
+     * Rediscovers the references of files whose content is unchanged,
+     * eg when symbols that their references were resolved against have changed.
+     * Uris that are not files within rootPath are ignored.
+     * Resolves to the uris that were rediscovered.
+     * @param uris
+     */
+    rediscoverReferences(uris: string[]) {
+
+        let files: WorkspaceFile[] = [];
+        let filePath: string;
+
+        for (let n = 0, l = uris.length; n < l; ++n) {
+            if (!/^file:/.test(uris[n])) {
+                continue;
+            }
+            filePath = util.uriToPath(uris[n]);
+            if (this.rootPath && this._isWithin(filePath, this.rootPath)) {
+                //copied so that known file information is left as is
+                files.push({ uri: uris[n], path: filePath, modified: 0, size: 0 });
+            }
+        }
+
+        return this._discover(files, this.discoverReferencesFn).then((discovered) => {
+            return discovered.map((x) => { return x.uri; });
+        });
+
+    }
+
+    /**
+     * Queues file system changes. Created and changed files are rediscovered,
+     * deleted files are forgotten. Events received while a batch is being processed
+     * are coalesced per uri and processed in the next batch.
+     * Resolves when the queue is empty.
+     * @param events
+     */
+    onDidChangeWatchedFiles(events: FileEvent[]) {
+
+        for (let n = 0, l = events.length; n < l; ++n) {
+            this._changes.set(events[n].uri, events[n].type);
+        }
+
+        if (!this._processingChanges) {
+            this._processingChanges = this._processChanges().catch((msg) => {
+                Log.error(msg);
+            }).then(() => {
+                this._processingChanges = undefined;
+            });
+        }
+
+        return this._processingChanges;
+
+    }
+
+    isIncluded(relativePath: string) {
+        return this._include.some((x) => { return x.test(relativePath); }) && !this.isExcluded(relativePath);
+    }
+
+    isExcluded(relativePath: string) {
+        return this._exclude.some((x) => { return x.test(relativePath); });
+    }
+
+    private _processChanges(): Promise<void> {
+
+        if (!this._changes.size) {
+            return Promise.resolve();
+        }
+
+        let changes = this._changes;
+        let deleted: string[] = [];
+        let files: WorkspaceFile[] = [];
+        this._changes = new Map<string, number>();
+
+        changes.forEach((type, uri) => {
+            if (type === FileChangeType.Deleted) {
+                deleted.push(uri);
+                this.files.delete(uri);
+            } else if (this._isWatchedFile(uri)) {
+                files.push({ uri: uri, path: util.uriToPath(uri), modified: 0, size: 0 });
+            }
+        });
+
+        return this._forget(deleted).then(() => {
+            return this._discover(files, this.discoverSymbolsFn);
+        }).then((discovered) => {
+            for (let n = 0, l = discovered.length; n < l; ++n) {
+                this.files.set(discovered[n].uri, discovered[n]);
+            }
+            return this._discover(discovered, this.discoverReferencesFn);
+        }).then(() => {
+            return this._processChanges();
+        });
+
+    }
+
+    private _isWithin(filePath: string, dir: string) {
+        let relativePath = path.relative(dir, filePath);
+        return relativePath.slice(0, 2) !== '..' && !path.isAbsolute(relativePath);
+    }
+
+    private _isWatchedFile(uri: string) {
+        if (!this.rootPath) {
+            return true;
+        }
+        let filePath = util.uriToPath(uri);
+        let relativePath = path.relative(this.rootPath, filePath).replace(/\\/g, '/');
+        return relativePath.slice(0, 2) !== '..' && this.isIncluded(relativePath) &&
+            (!this.filterFn || this.filterFn(filePath, false));
+    }
+
+    private _forget(uris: string[]) {
+
+        let n = 0;
+        let forgetBatchFn = (): Promise<void> => {
+            if (n >= uris.length) {
+                return Promise.resolve();
+            }
+            for (let end = Math.min(n + this.batchSize, uris.length); n < end; ++n) {
+                this.forgetFn(uris[n]);
+            }
+            return new Promise<void>((resolve, reject) => {
+                setImmediate(resolve);
+            }).then(forgetBatchFn);
+        };
+
+        return this.forgetFn ? forgetBatchFn() : Promise.resolve();
+
+    }
+
+    /**
+     * Reads and discovers up to concurrency files at a time.
+     * Resolves to the files that were discovered in the order given.
+     * @param files
+     * @param discoverFn
+     * @param filterFn called after the file is read and hashed, files for which this returns false are not discovered
+     * @param progressFn called after each file
+     */
+    private _discover(files: WorkspaceFile[], discoverFn: DiscoverFn, filterFn?: (file: WorkspaceFile) => boolean, progressFn?: ProgressFn) {
+
+        let n = 0;
+        let done = 0;
+        let discovered: boolean[] = [];
+        let discoverNextFn = (): Promise<void> => {
+            let index = n++;
+            let file = files[index];
+            if (!file) {
+                return Promise.resolve();
+            }
+            return this._stat(file).then(() => {
+                return this._readFile(file.path);
+            }).then((text) => {
+                if (text.length > this.maxSize) {
+                    Log.warn(`${file.path} exceeds max file size.`);
+                    return;
+                }
+                file.hash = util.md5(text);
+                if (filterFn && !filterFn(file)) {
+                    return;
+                }
+                return Promise.resolve(discoverFn({ uri: file.uri, languageId: 'php', version: 0, text: text })).then(() => {
+                    discovered[index] = true;
+                });
+            }).catch((msg) => {
+                Log.warn(msg);
+            }).then(() => {
+                if (progressFn) {
+                    progressFn(++done, files.length);
+                }
+                return discoverNextFn();
+            });
+        };
+
+        let running: Promise<void>[] = [];
+        for (let k = 0, l = Math.max(1, Math.min(this.concurrency, files.length)); k < l; ++k) {
+            running.push(discoverNextFn());
+        }
+
+        return Promise.all(running).then(() => {
+            return files.filter((x, i) => { return discovered[i]; });
+        });
+
+    }
+
+    /**
+     * Sets modified and size of files that have not been stat'd
+     * @param file
+     */
+    private _stat(file: WorkspaceFile) {
+        if (file.modified) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve, reject) => {
+            fs.stat(file.path, (err, stats) => {
+                if (err) {
+                    reject(err.message);
+                } else {
+                    file.modified = stats.mtime.getTime();
+                    file.size = stats.size;
+                    resolve();
+                }
+            });
+        });
+    }
+
+    private _realPath(filePath: string) {
+        return new Promise<string>((resolve, reject) => {
+            fs.realpath(filePath, (err, realPath) => {
+                resolve(err ? filePath : realPath);
+            });
+        });
+    }
+
+    private _readDir(rootPath: string, dir: string, dirs: string[], files: WorkspaceFile[]) {
+
+        return new Promise<void>((resolve, reject) => {
+
+            fs.readdir(dir, (err, names) => {
+
+                if (err) {
+                    Log.warn(err.message);
+                    resolve();
+                    return;
+                }
+
+                let count = names.length;
+                if (!count) {
+                    resolve();
+                    return;
+                }
+
+                let onStat = (filePath: string, stats: fs.Stats) => {
+                    let relativePath = path.relative(rootPath, filePath).replace(/\\/g, '/');
+                    if (this.filterFn && !this.filterFn(filePath, stats.isDirectory())) {
+                        return;
+                    }
+                    if (stats.isDirectory()) {
+                        if (!this.isExcluded(relativePath)) {
+                            dirs.push(filePath);
+                        }
+                    } else if (stats.isFile() && this.isIncluded(relativePath)) {
+                        if (stats.size > this.maxSize) {
+                            Log.warn(`${filePath} exceeds max file size.`);
+                        } else {
+                            files.push({
+                                uri: util.pathToUri(filePath),
+                                path: filePath,
+                                modified: stats.mtime.getTime(),
+                                size: stats.size
+                            });
+                        }
+                    }
+                };
+
+                for (let n = 0, l = names.length; n < l; ++n) {
+                    let filePath = path.join(dir, names[n]);
+                    fs.stat(filePath, (statErr, stats) => {
+                        if (!statErr) {
+                            onStat(filePath, stats);
+                        }
+                        if (--count < 1) {
+                            resolve();
+                        }
+                    });
+                }
+
+            });
+
+        });
+
+    }
+
+    private _compareFiles(a: WorkspaceFile, b: WorkspaceFile) {
+        return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+    }
+
+    private _readFile(filePath: string) {
+        return new Promise<string>((resolve, reject) => {
+            fs.readFile(filePath, (err, data) => {
+                if (err) {
+                    reject(err.message);
+                } else {
+                    resolve(data.toString());
+                }
+            });
+        });
+    }
+
+}
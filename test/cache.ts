@@ -0,0 +1,51 @@
+import { MemoryCache, WorkspaceFolderCache } from '../src/cache';
+import { ReferenceStore } from '../src/reference';
+import { assert } from 'chai';
+import 'mocha';
+
+describe('WorkspaceFolderCache', () => {
+
+    it('routes keys to longest folder uri', () => {
+        let a = new MemoryCache();
+        let b = new MemoryCache();
+        let cache = new WorkspaceFolderCache();
+        cache.add('file:///ws/a', a);
+        cache.add('file:///ws/a/b/', b);
+
+        return Promise.all([
+            cache.write('file:///ws/a/Foo.php', 1),
+            cache.write('file:///ws/a/b/Bar.php', 2),
+            cache.write('file:///ws/ab/Baz.php', 3)
+        ]).then(() => {
+            return Promise.all([a.read('file:///ws/a/Foo.php'), b.read('file:///ws/a/b/Bar.php'), a.read('file:///ws/ab/Baz.php')]);
+        }).then((values) => {
+            assert.deepEqual(values, [1, 2, 3]);
+            return b.read('file:///ws/a/Foo.php');
+        }).then((value) => {
+            assert.isUndefined(value);
+        });
+    });
+
+    it('removed folders are not read', () => {
+        let a = new MemoryCache();
+        let cache = new WorkspaceFolderCache();
+        cache.add('file:///ws/a', a);
+        return a.write('file:///ws/a/Foo.php', 1).then(() => {
+            cache.remove('file:///ws/a/');
+            return cache.read('file:///ws/a/Foo.php');
+        }).then((value) => {
+            assert.isUndefined(value);
+        });
+    });
+
+    it('merge reference summaries', () => {
+        let refStore = new ReferenceStore(new WorkspaceFolderCache());
+        refStore.fromJSON([{ uri: 'file:///ws/a/Foo.php', identifiers: ['foo'] }]);
+        refStore.fromJSON([
+            { uri: 'file:///ws/a/Foo.php', identifiers: ['foo'] },
+            { uri: 'file:///ws/b/Bar.php', identifiers: ['bar'] }
+        ]);
+        assert.deepEqual(Array.from(refStore.knownDocuments()), ['file:///ws/a/Foo.php', 'file:///ws/b/Bar.php']);
+    });
+
+});
@@ -0,0 +1,131 @@
+import { CallHierarchyProvider } from '../src/callHierarchyProvider';
+import { SymbolProvider } from '../src/symbolProvider';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { ParsedDocument } from '../src/parsedDocument';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import * as lsp from 'vscode-languageserver-types';
+import { assert } from 'chai';
+import 'mocha';
+
+function setup(srcArray: string[]) {
+
+    let symbolStore = new SymbolStore();
+    let refStore = new ReferenceStore(new MemoryCache());
+    let docs: ParsedDocument[] = [];
+
+    for (let n = 0; n < srcArray.length; ++n) {
+        docs.push(new ParsedDocument('doc' + n, srcArray[n]));
+        symbolStore.add(SymbolTable.create(docs[n]));
+    }
+
+    for (let n = 0; n < docs.length; ++n) {
+        refStore.add(ReferenceReader.discoverReferences(docs[n], symbolStore));
+    }
+
+    return new CallHierarchyProvider(symbolStore, refStore, new SymbolProvider(symbolStore));
+
+}
+
+function rangeText(r: lsp.Range) {
+    return `${r.start.line}:${r.start.character}-${r.end.line}:${r.end.character}`;
+}
+
+let src =
+    `<?php
+function area($s) { return $s->area(); }
+class Square {
+    function __construct() { $this->init(); }
+    function init() {}
+    function area() { return $this->area() + side(); }
+}
+function side() { return 1; }
+function main() {
+    $s = new Square();
+    area($s);
+    area($s);
+}
+main();
+`;
+
+let callerSrc =
+    `<?php
+function other() {
+    $s = new Square();
+    return $s->area();
+}
+`;
+
+describe('CallHierarchyProvider', () => {
+
+    it('prepare', () => {
+        let provider = setup([src]);
+        let items = provider.prepareCallHierarchy('doc0', { line: 10, character: 6 });
+        assert.lengthOf(items, 1);
+        assert.equal(items[0].name, 'area');
+        assert.equal(items[0].kind, lsp.SymbolKind.Function);
+        assert.equal(rangeText(items[0].range), '1:0-1:40');
+
+        items = provider.prepareCallHierarchy('doc0', { line: 9, character: 15 });
+        assert.lengthOf(items, 1);
+        assert.equal(items[0].name, '__construct');
+        assert.equal(items[0].detail, 'Square');
+    });
+
+    it('incoming function calls grouped by caller', () => {
+        let provider = setup([src]);
+        let item = provider.prepareCallHierarchy('doc0', { line: 10, character: 6 })[0];
+        return provider.incomingCalls(item).then((calls) => {
+            assert.lengthOf(calls, 1);
+            assert.equal(calls[0].from.name, 'main');
+            assert.deepEqual(calls[0].fromRanges.map(rangeText), ['10:4-10:8', '11:4-11:8']);
+        });
+    });
+
+    it('incoming method calls across documents', () => {
+        let provider = setup([src, callerSrc]);
+        let item = provider.prepareCallHierarchy('doc0', { line: 5, character: 14 })[0];
+        return provider.incomingCalls(item).then((calls) => {
+            let names = calls.map((x) => { return x.from.uri + ' ' + x.from.name; }).sort();
+            assert.deepEqual(names, ['doc0 area', 'doc1 other']);
+        });
+    });
+
+    it('incoming calls outside functions are attributed to the file', () => {
+        let provider = setup([src]);
+        let item = provider.prepareCallHierarchy('doc0', { line: 13, character: 1 })[0];
+        return provider.incomingCalls(item).then((calls) => {
+            assert.lengthOf(calls, 1);
+            assert.equal(calls[0].from.kind, lsp.SymbolKind.File);
+            assert.equal(calls[0].from.name, 'doc0');
+            assert.deepEqual(calls[0].fromRanges.map(rangeText), ['13:0-13:4']);
+        });
+    });
+
+    it('incoming constructor calls', () => {
+        let provider = setup([src, callerSrc]);
+        let item = provider.prepareCallHierarchy('doc0', { line: 9, character: 15 })[0];
+        return provider.incomingCalls(item).then((calls) => {
+            assert.deepEqual(calls.map((x) => { return x.from.name; }).sort(), ['main', 'other']);
+        });
+    });
+
+    it('outgoing calls', () => {
+        let provider = setup([src]);
+        let item = provider.prepareCallHierarchy('doc0', { line: 13, character: 1 })[0];
+        return provider.outgoingCalls(item).then((calls) => {
+            let names = calls.map((x) => { return x.to.name + ' ' + x.fromRanges.map(rangeText).join(','); });
+            assert.deepEqual(names, ['__construct 9:13-9:19', 'area 10:4-10:8,11:4-11:8']);
+        });
+    });
+
+    it('outgoing recursive and function calls from method', () => {
+        let provider = setup([src]);
+        let item = provider.prepareCallHierarchy('doc0', { line: 5, character: 14 })[0];
+        return provider.outgoingCalls(item).then((calls) => {
+            assert.deepEqual(calls.map((x) => { return x.to.name; }), ['area', 'side']);
+        });
+    });
+
+});
@@ -0,0 +1,159 @@
+import { CodeActionProvider, CodeActionCommand } from '../src/codeActionProvider';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { ParsedDocumentStore, ParsedDocument } from '../src/parsedDocument';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import * as lsp from 'vscode-languageserver-types';
+import { assert } from 'chai';
+import 'mocha';
+
+function setup(srcArray: string[]) {
+
+    let docStore = new ParsedDocumentStore();
+    let refStore = new ReferenceStore(new MemoryCache());
+    let symbolStore = new SymbolStore();
+    let doc: ParsedDocument;
+
+    symbolStore.add(SymbolTable.readBuiltInSymbols());
+
+    for (let n = 0; n < srcArray.length; ++n) {
+        doc = new ParsedDocument('doc' + n, srcArray[n]);
+        docStore.add(doc);
+        symbolStore.add(SymbolTable.create(doc));
+    }
+
+    for (let n = 0; n < srcArray.length; ++n) {
+        refStore.add(ReferenceReader.discoverReferences(docStore.find('doc' + n), symbolStore));
+    }
+
+    return new CodeActionProvider(symbolStore, docStore, refStore);
+
+}
+
+let classSrc =
+    `<?php
+namespace Vendor\\Pkg;
+class Foo {}
+`;
+
+let otherClassSrc =
+    `<?php
+namespace Other;
+class Foo {}
+class Bar {}
+`;
+
+let importSrc =
+    `<?php
+namespace Baz;
+use Other\\Bar;
+$a = new Foo();
+$b = new Bar();
+$c = new \\Foo();
+`;
+
+let abstractSrc =
+    `<?php
+namespace Foo;
+interface Shape {
+    /**
+     * The area
+     * @param int $precision decimal places
+     * @return float
+     */
+    function area(?int $precision = 2): float;
+    static function create(Bar &$bar, string ...$names);
+}
+abstract class Base implements Shape {
+    abstract protected function name();
+    function create(Bar &$bar, string ...$names) {}
+}
+`;
+
+let implementSrc =
+    `<?php
+namespace Foo;
+class Square extends Base {
+    function name() {}
+    function AREA(?int $precision = 2): float {}
+}
+class Circle extends Base {
+}
+`;
+
+describe('CodeActionProvider', () => {
+
+    it('import unresolved class', () => {
+
+        let provider = setup([classSrc, otherClassSrc, importSrc]);
+        let commands = provider.provideCodeActions('doc2', lsp.Range.create(3, 10, 3, 10));
+        let expected = [
+            {
+                title: "Import 'Vendor\\Pkg\\Foo'",
+                command: CodeActionCommand.applyWorkspaceEdit,
+                arguments: [{ changes: { doc2: [lsp.TextEdit.insert(lsp.Position.create(2, 14), '\nuse Vendor\\Pkg\\Foo;')] } }]
+            },
+            {
+                title: "Import 'Other\\Foo'",
+                command: CodeActionCommand.applyWorkspaceEdit,
+                arguments: [{ changes: { doc2: [lsp.TextEdit.insert(lsp.Position.create(2, 14), '\nuse Other\\Foo;')] } }]
+            },
+            {
+                title: 'Organize imports',
+                command: CodeActionCommand.organizeImports,
+                arguments: ['doc2']
+            }
+        ];
+        assert.deepEqual(commands, expected);
+
+    });
+
+    it('no actions for resolved or qualified names', () => {
+
+        let provider = setup([classSrc, otherClassSrc, importSrc]);
+        let fn = (c: lsp.Command) => {
+            return c.command === CodeActionCommand.applyWorkspaceEdit;
+        };
+        assert.lengthOf(provider.provideCodeActions('doc2', lsp.Range.create(4, 10, 4, 10)).filter(fn), 0);
+        assert.lengthOf(provider.provideCodeActions('doc2', lsp.Range.create(5, 11, 5, 11)).filter(fn), 0);
+
+    });
+
+    it('implement missing methods', () => {
+
+        let provider = setup([abstractSrc, implementSrc]);
+        let commands = provider.provideCodeActions('doc1', lsp.Range.create(6, 8, 6, 8)).filter((x) => {
+            return x.title === 'Implement missing methods';
+        });
+        let expected =
+            `    protected function name()
+    {
+    }
+
+    /**
+     * The area
+     *
+     * @param int $precision decimal places
+     * @return float
+     */
+    public function area(?int $precision = 2): float
+    {
+    }
+`;
+        assert.lengthOf(commands, 1);
+        assert.deepEqual(commands[0].arguments[0].changes['doc1'], [lsp.TextEdit.insert(lsp.Position.create(7, 0), expected)]);
+
+    });
+
+    it('no stubs when implemented', () => {
+
+        let provider = setup([abstractSrc, implementSrc]);
+        let commands = provider.provideCodeActions('doc1', lsp.Range.create(2, 8, 2, 8)).filter((x) => {
+            return x.title === 'Implement missing methods';
+        });
+        assert.lengthOf(commands, 0);
+
+    });
+
+});
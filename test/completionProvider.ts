@@ -315,6 +315,19 @@ if($var instanceof Foo) {
 }
 `;
 
+var guardSrc =
+`<?php
+class Foo {
+    function fn(){}
+}
+function test($var) {
+    if (!$var instanceof Foo) {
+        return;
+    }
+    $var->
+}
+`;
+
 var declBodySrc1 =
 `<?php
 class Foo {
@@ -334,6 +347,40 @@ var extendsImplementsSrc =
 class Foo i
 `;
 
+var genericsSrc =
+    `<?php
+class User { public $name; }
+/** @template T */
+class Repository {
+    /** @return T */
+    function find($id) {}
+    /**
+     * @template E
+     * @param class-string<E> $class
+     * @return E
+     */
+    function make($class) {}
+}
+/** @extends Repository<User> */
+class UserRepository extends Repository {}
+/** @var Repository<User> $repo */
+$repo->find(1)->name;
+$userRepo = new UserRepository;
+$userRepo->find(1)->name;
+$userRepo->make(User::class)->name;
+`;
+
+var arrayTypesSrc =
+    `<?php
+class User { public $name; }
+/** @var array{id: int, 'user': User, tags: list<string>} $shape */
+$shape['user']->name;
+/** @var list<User> $list */
+foreach ($list as $u) { $u->name; }
+/** @var array<int, array{user: User}> $rows */
+$rows[0]['user']->name;
+`;
+
 function setup(src: string | string[]) {
     let symbolStore = new SymbolStore();
     let parsedDocumentStore = new ParsedDocumentStore();
@@ -967,6 +1014,11 @@ describe('CompletionProvider', () => {
             assert.equal(completions.items[0].label, 'fn');
         });
 
+        it('guard', function () {
+            var completions = setup(guardSrc).provideCompletions('test', { line: 8, character: 10 });
+            assert.equal(completions.items[0].label, 'fn');
+        });
+
     });
 
     describe('class decl body', () => {
@@ -1087,6 +1139,60 @@ describe('CompletionProvider', () => {
 
     });
 
+    describe('generics', () => {
+
+        let completionProvider: CompletionProvider;
+        before(function () {
+            completionProvider = setup(genericsSrc);
+        });
+
+        it('type arguments', function () {
+            let completions = completionProvider.provideCompletions('test', { line: 16, character: 17 });
+            assert.lengthOf(completions.items, 1);
+            assert.isTrue(isEqual(completions.items[0], 'name', lsp.CompletionItemKind.Property));
+        });
+
+        it('@extends', function () {
+            let completions = completionProvider.provideCompletions('test', { line: 18, character: 21 });
+            assert.lengthOf(completions.items, 1);
+            assert.isTrue(isEqual(completions.items[0], 'name', lsp.CompletionItemKind.Property));
+        });
+
+        it('class-string', function () {
+            let completions = completionProvider.provideCompletions('test', { line: 19, character: 31 });
+            assert.lengthOf(completions.items, 1);
+            assert.isTrue(isEqual(completions.items[0], 'name', lsp.CompletionItemKind.Property));
+        });
+
+    });
+
+    describe('array types', function () {
+
+        let completionProvider: CompletionProvider;
+        before(function () {
+            completionProvider = setup(arrayTypesSrc);
+        });
+
+        it('array shape key', function () {
+            let completions = completionProvider.provideCompletions('test', { line: 3, character: 17 });
+            assert.lengthOf(completions.items, 1);
+            assert.isTrue(isEqual(completions.items[0], 'name', lsp.CompletionItemKind.Property));
+        });
+
+        it('foreach list', function () {
+            let completions = completionProvider.provideCompletions('test', { line: 5, character: 29 });
+            assert.lengthOf(completions.items, 1);
+            assert.isTrue(isEqual(completions.items[0], 'name', lsp.CompletionItemKind.Property));
+        });
+
+        it('nested array', function () {
+            let completions = completionProvider.provideCompletions('test', { line: 7, character: 19 });
+            assert.lengthOf(completions.items, 1);
+            assert.isTrue(isEqual(completions.items[0], 'name', lsp.CompletionItemKind.Property));
+        });
+
+    });
+
 });
 
 
@@ -0,0 +1,186 @@
+import { ComposerAutoload } from '../src/composer';
+import { CompletionProvider } from '../src/completionProvider';
+import { DiagnosticsProvider, DiagnosticCode } from '../src/diagnosticsProvider';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { ParsedDocument, ParsedDocumentStore } from '../src/parsedDocument';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import * as lsp from 'vscode-languageserver-types';
+import * as util from '../src/util';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { assert } from 'chai';
+import 'mocha';
+
+let composerJson = {
+    autoload: {
+        'psr-4': { 'App\\': 'src/' },
+        'psr-0': { 'Legacy_': 'lib/', 'Old\\': 'old/' }
+    },
+    'autoload-dev': {
+        'psr-4': { 'App\\Tests\\': ['tests/'] }
+    }
+};
+
+let autoloadPsr4 =
+    `<?php
+
+// autoload_psr4.php @generated by Composer
+
+$vendorDir = dirname(dirname(__FILE__));
+$baseDir = dirname($vendorDir);
+
+return array(
+    'Acme\\\\Util\\\\' => array($vendorDir . '/acme/util/src'),
+    'App\\\\' => array($baseDir . '/src'),
+);
+`;
+
+let autoloadClassmap =
+    `<?php
+
+$vendorDir = dirname(dirname(__FILE__));
+$baseDir = dirname($vendorDir);
+
+return array(
+    'Acme\\\\Mapped' => $vendorDir . '/acme/mapped/Mapped.php',
+);
+`;
+
+let files: { [index: string]: string } = {
+    'composer.json': JSON.stringify(composerJson),
+    'vendor/composer/autoload_psr4.php': autoloadPsr4,
+    'vendor/composer/autoload_classmap.php': autoloadClassmap,
+    'vendor/acme/util/src/Str/Helper.php': '<?php namespace Acme\\Util\\Str; class Helper {}',
+    'vendor/acme/mapped/Mapped.php': '<?php namespace Acme; class Mapped {}',
+    'vendor/acme/util/tests/HelperTest.php': '<?php class HelperTest {}',
+    'src/Http/Controller.php': '<?php namespace App\\Http; class Controller {}',
+    'lib/Legacy/Thing.php': '<?php class Legacy_Thing {}'
+};
+
+function createWorkspace() {
+    let root = fs.mkdtempSync(path.join(os.tmpdir(), 'intelephense-'));
+    Object.keys(files).forEach((x) => {
+        fs.outputFileSync(path.join(root, x), files[x]);
+    });
+    return root;
+}
+
+describe('ComposerAutoload', () => {
+
+    let root: string;
+    let autoload: ComposerAutoload;
+
+    before(() => {
+        root = createWorkspace();
+        return ComposerAutoload.read(root).then((x) => {
+            autoload = x;
+        });
+    });
+
+    after(() => {
+        fs.removeSync(root);
+    });
+
+    it('no composer.json', () => {
+        return ComposerAutoload.read(path.join(root, 'src')).then((x) => {
+            assert.isUndefined(x);
+        });
+    });
+
+    it('parse autoload file', () => {
+        let entries = ComposerAutoload.parseAutoloadFile(autoloadPsr4, { vendorDir: '/v', baseDir: '/b' });
+        assert.deepEqual(entries, [
+            ['Acme\\Util\\', [path.join('/v', '/acme/util/src')]],
+            ['App\\', [path.join('/b', '/src')]]
+        ]);
+    });
+
+    it('class file', () => {
+        return Promise.all([
+            autoload.classFile('\\Acme\\Util\\Str\\Helper'),
+            autoload.classFile('acme\\mapped'),
+            autoload.classFile('App\\Http\\Controller'),
+            autoload.classFile('Legacy_Thing'),
+            autoload.classFile('App\\Missing')
+        ]).then((filePaths) => {
+            assert.equal(filePaths[0], path.join(root, 'vendor/acme/util/src/Str/Helper.php'));
+            assert.equal(filePaths[1], path.join(root, 'vendor/acme/mapped/Mapped.php'));
+            assert.equal(filePaths[2], path.join(root, 'src/Http/Controller.php'));
+            assert.equal(filePaths[3], path.join(root, 'lib/Legacy/Thing.php'));
+            assert.isUndefined(filePaths[4]);
+        });
+    });
+
+    it('indexable', () => {
+        assert.isTrue(autoload.isIndexable(path.join(root, 'src/Foo.php'), false));
+        assert.isTrue(autoload.isIndexable(path.join(root, 'vendor/acme'), true));
+        assert.isTrue(autoload.isIndexable(path.join(root, 'vendor/acme/util/src/Str/Helper.php'), false));
+        assert.isTrue(autoload.isIndexable(path.join(root, 'vendor/acme/mapped/Mapped.php'), false));
+        assert.isTrue(autoload.isIndexable(path.join(root, 'vendor/acme/mapped'), true));
+        assert.isFalse(autoload.isIndexable(path.join(root, 'vendor/acme/mapped/Other.php'), false));
+        assert.isFalse(autoload.isIndexable(path.join(root, 'vendor/acme/util/tests'), true));
+        assert.isFalse(autoload.isIndexable(path.join(root, 'vendor/other'), true));
+    });
+
+    it('namespaces', () => {
+        assert.deepEqual(autoload.namespaces(path.join(root, 'src/Http/New.php')), ['App\\Http']);
+        assert.deepEqual(autoload.namespaces(path.join(root, 'tests/Unit/FooTest.php')), ['App\\Tests\\Unit']);
+        assert.deepEqual(autoload.namespaces(path.join(root, 'src/New.php')), ['App']);
+        assert.deepEqual(autoload.namespaces(path.join(root, 'bin/run.php')), []);
+    });
+
+    it('autoload namespaces', () => {
+        assert.deepEqual(autoload.autoloadNamespaces(path.join(root, 'src/New.php')), [{ namespace: 'App', standard: 'PSR-4' }]);
+        assert.deepEqual(autoload.autoloadNamespaces(path.join(root, 'old/Old/Thing.php')), [{ namespace: 'Old', standard: 'PSR-0' }]);
+    });
+
+    it('namespace definition completion', () => {
+        let uri = util.pathToUri(path.join(root, 'src/Http/New.php'));
+        let src = '<?php\nnamespace A';
+        let doc = new ParsedDocument(uri, src);
+        let docStore = new ParsedDocumentStore();
+        let symbolStore = new SymbolStore();
+        let refStore = new ReferenceStore(new MemoryCache());
+        let other = new ParsedDocument('other', '<?php namespace App\\Models; class User {}');
+        docStore.add(doc);
+        symbolStore.add(SymbolTable.create(doc));
+        symbolStore.add(SymbolTable.create(other));
+        refStore.add(ReferenceReader.discoverReferences(doc, symbolStore));
+        let provider = new CompletionProvider(symbolStore, docStore, refStore);
+        provider.autoloads = [autoload];
+        let items = provider.provideCompletions(uri, { line: 1, character: 11 }).items;
+        assert.equal(items[0].label, 'App\\Http');
+        assert.includeMembers(items.map((x) => { return x.label; }), ['App\\Models']);
+    });
+
+    it('namespace mismatch diagnostic', () => {
+        let uri = util.pathToUri(path.join(root, 'src/Http/Controller.php'));
+        let doc = new ParsedDocument(uri, '<?php\nnamespace App;\nclass Controller {}\n$a = new class {};\n');
+        let symbolStore = new SymbolStore();
+        let refStore = new ReferenceStore(new MemoryCache());
+        symbolStore.add(SymbolTable.create(doc));
+        refStore.add(ReferenceReader.discoverReferences(doc, symbolStore));
+        let provider = new DiagnosticsProvider(symbolStore, refStore);
+        provider.autoloads = [autoload];
+        provider.debounceWait = 0;
+        provider.add(doc);
+
+        return new Promise<lsp.Diagnostic[]>((resolve, reject) => {
+            provider.publishDiagnosticsEvent.subscribe((args) => {
+                resolve(args.diagnostics);
+            });
+            doc.changeEvent.trigger({ parsedDocument: doc });
+        }).then((diagnostics) => {
+            let mismatch = diagnostics.filter((x) => { return x.code === DiagnosticCode.NamespaceMismatch; });
+            assert.lengthOf(mismatch, 1);
+            assert.equal(mismatch[0].severity, lsp.DiagnosticSeverity.Warning);
+            assert.deepEqual(mismatch[0].range, lsp.Range.create(2, 6, 2, 16));
+            assert.include(mismatch[0].message, 'PSR-4 location');
+            assert.include(mismatch[0].message, "Expected 'App\\Http'");
+        });
+    });
+
+});
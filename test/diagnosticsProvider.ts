@@ -0,0 +1,142 @@
+import { DiagnosticsProvider, PublishDiagnosticsEventArgs } from '../src/diagnosticsProvider';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { ParsedDocument } from '../src/parsedDocument';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import * as lsp from 'vscode-languageserver-types';
+import { assert } from 'chai';
+import 'mocha';
+
+function diagnose(src: string) {
+
+    let symbolStore = new SymbolStore();
+    let refStore = new ReferenceStore(new MemoryCache());
+    let provider = new DiagnosticsProvider(symbolStore, refStore);
+    let doc = new ParsedDocument('test', src);
+
+    symbolStore.add(SymbolTable.readBuiltInSymbols());
+    symbolStore.add(SymbolTable.create(doc));
+    refStore.add(ReferenceReader.discoverReferences(doc, symbolStore));
+    provider.debounceWait = 0;
+    provider.add(doc);
+
+    return new Promise<lsp.Diagnostic[]>((resolve, reject) => {
+        provider.publishDiagnosticsEvent.subscribe((args) => {
+            resolve(args.diagnostics);
+        });
+        doc.changeEvent.trigger({ parsedDocument: doc });
+    });
+
+}
+
+let undefinedSrc =
+    `<?php
+namespace Foo;
+use Bar\\Baz;
+class Qux extends Quux implements \\Countable {
+    function count(int $a, self $b, ?string $c): void {
+        $d = new Corge();
+        strlen('a');
+        grault();
+        $e = PHP_EOL;
+        $f = GARPLY;
+        $g = true;
+        return new static();
+    }
+}
+`;
+
+let definedSrc =
+    `<?php
+namespace Foo;
+const BAR = 1;
+function baz() {}
+class Qux {}
+$a = new Qux();
+baz();
+$b = BAR;
+$c = \\Foo\\BAR;
+`;
+
+let memberSrc =
+    `<?php
+/**
+ * @method int magic()
+ * @property int $magicProp
+ */
+class Foo {
+    public $prop;
+    const BAR = 1;
+    function fn() {
+        $this->FN();
+        $this->nope();
+        $this->prop;
+        $this->noProp;
+        $this->magic();
+        $this->magicProp;
+        self::BAR;
+        self::NO_BAR;
+        static::class;
+    }
+}
+class Baz { function __call($name, $args) {} function __get($name) {} }
+class Qux extends Unknown {}
+/** @var Baz $baz */
+$baz->anything()->other;
+$baz->prop;
+/** @var Qux $qux */
+$qux->anything();
+/** @var mixed $m */
+$m->anything();
+/** @var Foo|null $foo */
+$foo->nope();
+/** @var Foo|int $fooInt */
+$fooInt->nope();
+`;
+
+describe('DiagnosticsProvider', () => {
+
+    it('undefined symbols', () => {
+
+        return diagnose(undefinedSrc).then((diagnostics) => {
+            let actual = diagnostics.map((d) => {
+                return [d.range.start.line, d.range.start.character, d.code, d.message];
+            });
+            assert.deepEqual(actual, [
+                [2, 4, 2, "Undefined type 'Bar\\Baz'."],
+                [3, 18, 2, "Undefined type 'Foo\\Quux'."],
+                [5, 17, 2, "Undefined type 'Foo\\Corge'."],
+                [7, 8, 3, "Undefined function 'grault'."],
+                [9, 13, 4, "Undefined constant 'GARPLY'."]
+            ]);
+        });
+
+    });
+
+    it('undefined members', () => {
+
+        return diagnose(memberSrc).then((diagnostics) => {
+            let actual = diagnostics.map((d) => {
+                return [d.range.start.line, d.range.start.character, d.code, d.message];
+            });
+            assert.deepEqual(actual, [
+                [21, 18, 2, "Undefined type 'Unknown'."],
+                [10, 15, 5, "Undefined method 'nope'."],
+                [12, 15, 6, "Undefined property '$noProp'."],
+                [16, 14, 7, "Undefined class constant 'NO_BAR'."],
+                [30, 6, 5, "Undefined method 'nope'."]
+            ]);
+        });
+
+    });
+
+    it('defined symbols', () => {
+
+        return diagnose(definedSrc).then((diagnostics) => {
+            assert.lengthOf(diagnostics, 0);
+        });
+
+    });
+
+});
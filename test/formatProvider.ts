@@ -1,6 +1,7 @@
-import { FormatProvider } from '../src/formatProvider';
+import { FormatProvider, FormatProfile } from '../src/formatProvider';
 import { SymbolStore, SymbolTable } from '../src/symbolStore';
 import { ParsedDocumentStore, ParsedDocument } from '../src/parsedDocument';
+import { TextDocument } from '../src/textDocument';
 import { ReferenceReader } from '../src/referenceReader';
 import * as lsp from 'vscode-languageserver-types';
 import { assert } from 'chai';
@@ -15,12 +16,22 @@ function setup(src:string){
     return new FormatProvider(docStore);
 }
 
+function formatText(src: string) {
+    let provider = setup(src);
+    let edits = provider.provideDocumentFormattingEdits({ uri: 'test' }, { tabSize: 4, insertSpaces: true });
+    let doc = new TextDocument('test', src);
+    //edits are in reverse document order
+    for (let n = 0; n < edits.length; ++n) {
+        doc.applyEdit(edits[n].range.start, edits[n].range.end, edits[n].newText);
+    }
+    return doc.text;
+}
+
 let rangeFormatFullDoc = 
 `<?php
 foreach ($a as $v) {
 echo 'HELLO WORLD';
 }
-
 `;
 
 let fixExtraLinesSrc = 
@@ -29,7 +40,6 @@ function fn()
 {
     //dont put newlines after this
 }
-
 `;
 
 let conditionalCurlySrc =
@@ -40,13 +50,11 @@ if (true)
 else 
 {
 }
-
 `;
 
 let lcKeywords = 
 `<?php
 $foo = Array();
-
 `;
 
 let removeCloseTagSrc = 
@@ -65,7 +73,6 @@ switch ($foo) {
     case 1 :
         echo 'bar';
 }
-
 `;
 
 let noFormatInsideTemplateString =
@@ -74,25 +81,21 @@ $var = "Don't $format $this->var";
 $heredoc = <<<EOD
 Don't $format $this->var
 EOD;
-
 `;
 
 let noSpaceRequireSrc = 
 `<?php
 require_once('file');
-
 `;
 
 let parenthesisedArgSrc =
 `<?php
 fn( ($var));
-
 `;
 
 let encapsExprSrc =
 `<?php
 $var = \${$var};
-
 `;
 
 let memberAccessWithArrayArgSrc = 
@@ -104,7 +107,6 @@ $objPHPExcel->getActiveSheet()
             'font' => 'bold'
         )
     );
-
 `;
 
 let multilineParamFnOpeningBraceSrc =
@@ -116,20 +118,44 @@ function fn(
 {
 
 }
-
 `;
 
 let allowNewlinesAfterOpenTagsrc = 
 `<?php
 
 echo 'hi';
-
 `;
 
 let strictNotEqual =
 `<?php
 $a!==$b;
+`;
+
+let psr12Src =
+`<?php
+namespace Foo;
+use Bar\\Baz;
+use Bar \\ { Qux, Quux };
+class Fred extends Baz {
+    public function fn(int $a) : ? int {
+        if ($a)
+        {
+            return 1;
+        }
+        elseif ($a > 1) { return 2; }
+        else { return 3; }
+        try { $o = new class
+        {
+        }; } catch (\\Exception $e) {}
+        finally { $f = function () {}; }
+    }
+}
+`;
 
+let statementsSrc =
+`<?php
+$a = 1; $b = 2;
+foo();
 `;
 
 describe('provideDocumentFormattingEdits', ()=>{
@@ -229,13 +255,13 @@ describe('provideDocumentFormattingEdits', ()=>{
                         character: 0
                     }
                 },
-                newText: "\n\n"
+                newText: "\n"
             }
         ];
         assert.deepEqual(edits, expected);
     });
 
-    it('end of file blank newline', ()=>{
+    it('end of file newline', ()=>{
         let provider = setup(endWithBlkLineSrc);
         let edits = provider.provideDocumentFormattingEdits({uri: 'test'}, {tabSize:4, insertSpaces:true});
         //console.log(JSON.stringify(edits, null, 4));
@@ -251,7 +277,7 @@ describe('provideDocumentFormattingEdits', ()=>{
                         character: 9
                     }
                 },
-                newText: "\n\n"
+                newText: "\n"
             }
         ];
         assert.deepEqual(edits, expected);
@@ -401,4 +427,53 @@ describe('provideDocumentFormattingEdits', ()=>{
         assert.deepEqual(edits, expected);
     });
 
-});
\ No newline at end of file
+    it('psr12 brace placement', () => {
+        let expected =
+`<?php
+namespace Foo;
+
+use Bar\\Baz;
+use Bar\\{Qux, Quux};
+
+class Fred extends Baz
+{
+    public function fn(int $a): ?int
+    {
+        if ($a) {
+            return 1;
+        } elseif ($a > 1) {
+            return 2;
+        } else {
+            return 3;
+        }
+        try {
+            $o = new class {
+            };
+        } catch (\\Exception $e) {
+        } finally {
+            $f = function () {
+            };
+        }
+    }
+}
+`;
+        assert.equal(formatText(psr12Src), expected);
+    });
+
+    it('psr12 one statement per line', () => {
+        assert.equal(formatText(statementsSrc), '<?php\n$a = 1;\n$b = 2;\nfoo();\n');
+    });
+
+    it('idempotent', () => {
+        let formatted = formatText(psr12Src);
+        let provider = setup(formatted);
+        assert.isEmpty(provider.provideDocumentFormattingEdits({ uri: 'test' }, { tabSize: 4, insertSpaces: true }));
+    });
+
+    it('default profile', () => {
+        let provider = setup(psr12Src);
+        assert.strictEqual(provider.profile, FormatProfile.psr12);
+        assert.equal(provider.profile.name, 'PSR-12');
+    });
+
+});
@@ -57,5 +57,16 @@ describe('hover provider', () => {
         assert.deepEqual(hover, expected);
     });
 
+    it('closure variable', () => {
+        let provider = setup('<?php\n$fn = function (int $id): bool {};\n$fn(1);');
+        let hover = provider.provideHover('test', <lsp.Position>{ line: 2, character: 1 });
+        assert.equal(hover.contents, 'Closure(int $id): bool $fn');
+    });
+
+    it('inferred return type', () => {
+        let provider = setup('<?php\nfunction fn() { return 1; }\nfn();');
+        let hover = provider.provideHover('test', <lsp.Position>{ line: 2, character: 1 });
+        assert.deepEqual(hover.contents, [{ language: 'php', value: '<?php\nfn(): int /* inferred */' }]);
+    });
 
 });
\ No newline at end of file
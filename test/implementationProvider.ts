@@ -0,0 +1,79 @@
+import { ImplementationProvider } from '../src/implementationProvider';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { ParsedDocumentStore, ParsedDocument } from '../src/parsedDocument';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import * as lsp from 'vscode-languageserver-types';
+import { assert } from 'chai';
+import 'mocha';
+
+function setup(src: string) {
+
+    let symbolStore = new SymbolStore();
+    let doc = new ParsedDocument('test', src);
+    let docStore = new ParsedDocumentStore();
+    let refStore = new ReferenceStore(new MemoryCache());
+    docStore.add(doc);
+    symbolStore.add(SymbolTable.create(doc));
+    refStore.add(ReferenceReader.discoverReferences(doc, symbolStore));
+    return new ImplementationProvider(symbolStore, docStore, refStore);
+
+}
+
+function startLines(locations: lsp.Location[]) {
+    return locations.map((x) => { return x.range.start.line; }).sort((a, b) => { return a - b; });
+}
+
+let src =
+    `<?php
+interface Shape {
+    function area();
+}
+abstract class Base implements Shape {
+    abstract function name();
+}
+class Square extends Base {
+    function area() {}
+    function name() {}
+}
+class Cube extends Square {
+    function area() {}
+}
+/** @var Shape $s */
+$s->area();
+`;
+
+describe('ImplementationProvider', () => {
+
+    it('interface', () => {
+        let provider = setup(src);
+        assert.deepEqual(startLines(provider.provideImplementations('test', { line: 1, character: 13 })), [7, 11]);
+    });
+
+    it('abstract class', () => {
+        let provider = setup(src);
+        assert.deepEqual(startLines(provider.provideImplementations('test', { line: 7, character: 23 })), [7, 11]);
+    });
+
+    it('interface method', () => {
+        let provider = setup(src);
+        assert.deepEqual(startLines(provider.provideImplementations('test', { line: 15, character: 6 })), [8, 12]);
+    });
+
+    it('abstract method', () => {
+        let provider = setup(src);
+        assert.deepEqual(startLines(provider.provideImplementations('test', { line: 5, character: 22 })), [9]);
+    });
+
+    it('removed tables are not subtypes', () => {
+        let symbolStore = new SymbolStore();
+        let doc = new ParsedDocument('test', src);
+        symbolStore.add(SymbolTable.create(doc));
+        symbolStore.add(SymbolTable.create(new ParsedDocument('test', '<?php\nclass Square {}\n')));
+        assert.lengthOf(symbolStore.findSubtypes('Shape'), 0);
+        assert.lengthOf(symbolStore.find('Cube'), 0);
+        assert.lengthOf(symbolStore.find('Square'), 1);
+    });
+
+});
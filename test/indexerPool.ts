@@ -0,0 +1,143 @@
+import { IndexerPool } from '../src/indexerPool';
+import { SymbolKind, SymbolModifier } from '../src/symbol';
+import { SymbolTable } from '../src/symbolStore';
+import { ParsedDocument } from '../src/parsedDocument';
+import * as lsp from 'vscode-languageserver-types';
+import { Worker } from 'worker_threads';
+import { assert } from 'chai';
+import 'mocha';
+
+let fooSrc = '<?php class Foo { function bar() {} }';
+let bazSrc = '<?php class Baz { function qux(Foo $foo) { $foo->bar(); } }';
+let makeSrc = '<?php function make() { return new Foo(); }';
+
+function textDocument(uri: string, text: string): lsp.TextDocumentItem {
+    return { uri: uri, languageId: 'php', version: 0, text: text };
+}
+
+describe('IndexerPool', function () {
+
+    //workers compile the typescript sources on start
+    this.timeout(60000);
+
+    let pool: IndexerPool;
+
+    afterEach(() => {
+        if (pool) {
+            pool.terminate();
+        }
+    });
+
+    it('discover in workers', () => {
+
+        pool = new IndexerPool(2);
+        let fooUri = 'file:///Foo.php';
+        let bazUri = 'file:///Baz.php';
+
+        return Promise.all([
+            pool.discoverSymbols(textDocument(fooUri, fooSrc)),
+            pool.discoverSymbols(textDocument(bazUri, bazSrc))
+        ]).then((tables) => {
+            assert.equal(pool.workerCount, 2);
+            assert.deepEqual(tables[0], SymbolTable.create(new ParsedDocument(fooUri, fooSrc), true));
+            assert.equal(tables[1].uri, bazUri);
+            assert.equal(tables[1].symbolCount, 3);
+            //either worker must know Foo to resolve the method reference
+            return Promise.all([
+                pool.discoverReferences(textDocument(bazUri, bazSrc)),
+                pool.discoverReferences(textDocument(bazUri, bazSrc))
+            ]);
+        }).then((discovered) => {
+            for (let n = 0; n < discovered.length; ++n) {
+                let refs = discovered[n].referenceTable.references((x) => { return x.kind === SymbolKind.Method; });
+                assert.lengthOf(refs, 2);
+                assert.equal(refs[1].name, 'bar');
+                assert.equal(refs[1].scope, 'Foo');
+            }
+        });
+
+    });
+
+    it('inferred return types', () => {
+
+        pool = new IndexerPool(1);
+        let makeUri = 'file:///make.php';
+
+        return pool.discoverSymbols(textDocument(makeUri, makeSrc)).then(() => {
+            return pool.discoverReferences(textDocument(makeUri, makeSrc));
+        }).then((discovered) => {
+            assert.equal(discovered.referenceTable.uri, makeUri);
+            let fn = discovered.symbolTable.find((x) => { return x.kind === SymbolKind.Function; });
+            assert.equal(fn.name, 'make');
+            assert.equal(fn.type, 'Foo');
+            assert.isOk(fn.modifiers & SymbolModifier.Inferred);
+        });
+
+    });
+
+    it('keep primed workers running', () => {
+
+        pool = new IndexerPool(1);
+        let primed = 0;
+        pool.symbolTablesFn = () => {
+            ++primed;
+            return [SymbolTable.create(new ParsedDocument('file:///Foo.php', fooSrc), true)];
+        };
+
+        return pool.discoverSymbols(textDocument('file:///Baz.php', bazSrc)).then(() => {
+            return new Promise((resolve, reject) => {
+                setTimeout(resolve, 50);
+            });
+        }).then(() => {
+            return pool.discoverReferences(textDocument('file:///Baz.php', bazSrc));
+        }).then((discovered) => {
+            assert.equal(pool.workerCount, 1);
+            assert.equal(primed, 1);
+            let refs = discovered.referenceTable.references((x) => { return x.kind === SymbolKind.Method; });
+            assert.equal(refs[1].scope, 'Foo');
+        });
+
+    });
+
+    it('replace exited workers', () => {
+
+        let createWorker = IndexerPool.createWorker;
+        //the first worker exits then the original factory is restored
+        (<any>IndexerPool).createWorker = () => {
+            (<any>IndexerPool).createWorker = createWorker;
+            return new Worker('process.exit(1)', { eval: true });
+        };
+
+        pool = new IndexerPool(1);
+        let fooUri = 'file:///Foo.php';
+
+        return pool.discoverSymbols(textDocument(fooUri, fooSrc)).then(() => {
+            throw new Error('Expected rejection');
+        }, (reason) => {
+            assert.include(reason, 'exited');
+        }).then(() => {
+            return pool.discoverSymbols(textDocument(fooUri, fooSrc));
+        }).then((table) => {
+            assert.equal(table.uri, fooUri);
+            assert.equal(pool.workerCount, 1);
+        });
+
+    });
+
+    it('terminate when idle', () => {
+
+        pool = new IndexerPool(1);
+        pool.idleTimeout = 10;
+
+        return pool.discoverSymbols(textDocument('file:///Foo.php', fooSrc)).then(() => {
+            assert.equal(pool.workerCount, 1);
+            return new Promise((resolve, reject) => {
+                setTimeout(resolve, 50);
+            });
+        }).then(() => {
+            assert.equal(pool.workerCount, 0);
+        });
+
+    });
+
+});
@@ -67,6 +67,19 @@ describe('SymbolIndex', () => {
 
     });
 
+    describe('#remove()', () => {
+
+        it('Should remove only the given item', () => {
+            let index = new NameIndex<PhpSymbol>(PhpSymbol.keys);
+            index.addMany(symbols);
+            index.remove(symbols[5]);
+            index.remove(symbols[5]);
+            assert.lengthOf(index.find('zoo'), 0);
+            assert.deepEqual(index.find('Foo\\MyFoo'), [symbols[0]]);
+        });
+
+    });
+
 
     
 });
\ No newline at end of file
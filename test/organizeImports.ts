@@ -0,0 +1,133 @@
+import { assert } from 'chai';
+import 'mocha';
+import { ParsedDocument, ParsedDocumentStore } from '../src/parsedDocument';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { OrganizeImportsProvider } from '../src/commands';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import { TextDocument } from '../src/textDocument';
+import * as lsp from 'vscode-languageserver-types';
+
+function setup(src: string) {
+
+    let docStore = new ParsedDocumentStore();
+    let refStore = new ReferenceStore(new MemoryCache());
+    let symbolStore = new SymbolStore();
+    let doc = new ParsedDocument('test', src);
+
+    docStore.add(doc);
+    symbolStore.add(SymbolTable.create(doc));
+    refStore.add(ReferenceReader.discoverReferences(doc, symbolStore));
+    return new OrganizeImportsProvider(symbolStore, docStore, refStore);
+
+}
+
+function applyEdits(src: string, edits: lsp.TextEdit[]) {
+
+    let textDocument = new TextDocument('test', src);
+    let sorted = edits.slice(0).sort((a, b) => {
+        return textDocument.offsetAtPosition(b.range.start) - textDocument.offsetAtPosition(a.range.start);
+    });
+
+    for (let n = 0; n < sorted.length; ++n) {
+        textDocument.applyEdit(sorted[n].range.start, sorted[n].range.end, sorted[n].newText);
+    }
+
+    return textDocument.text;
+
+}
+
+let src =
+    `<?php
+namespace Foo;
+
+use const Baz\\QUX;
+use Zed\\Unused;
+use function Baz\\fn;
+use Baz\\Corge as Grault, Baz\\Bar;
+use Baz\\Documented;
+use Baz\\Sub;
+
+$a = new Bar();
+$b = new Grault();
+fn(QUX);
+Sub\\Thing::call();
+/** @var Documented $c */
+`;
+
+describe('OrganizeImportsProvider', () => {
+
+    it('remove unused and sort', () => {
+
+        let provider = setup(src);
+        let expected =
+            `<?php
+namespace Foo;
+
+use Baz\\Bar;
+use Baz\\Corge as Grault;
+use Baz\\Documented;
+use Baz\\Sub;
+use function Baz\\fn;
+use const Baz\\QUX;
+
+$a = new Bar();
+$b = new Grault();
+fn(QUX);
+Sub\\Thing::call();
+/** @var Documented $c */
+`;
+        assert.equal(applyEdits(src, provider.provideOrganizeImportsTextEdits('test')), expected);
+
+    });
+
+    it('group', () => {
+
+        let provider = setup(src);
+        provider.group = true;
+        let expected =
+            `<?php
+namespace Foo;
+
+use Baz\\{Bar, Corge as Grault, Documented, Sub};
+use function Baz\\fn;
+use const Baz\\QUX;
+
+$a = new Bar();
+$b = new Grault();
+fn(QUX);
+Sub\\Thing::call();
+/** @var Documented $c */
+`;
+        assert.equal(applyEdits(src, provider.provideOrganizeImportsTextEdits('test')), expected);
+
+    });
+
+    it('no edits when organised', () => {
+
+        let organised =
+            `<?php
+use Baz\\Bar;
+use function Baz\\fn;
+fn(new Bar());
+`;
+        let provider = setup(organised);
+        assert.lengthOf(provider.provideOrganizeImportsTextEdits('test'), 0);
+
+    });
+
+    it('remove all', () => {
+
+        let unused =
+            `<?php
+use Baz\\Bar;
+use Baz\\Qux;
+echo 1;
+`;
+        let provider = setup(unused);
+        assert.equal(applyEdits(unused, provider.provideOrganizeImportsTextEdits('test')), '<?php\necho 1;\n');
+
+    });
+
+});
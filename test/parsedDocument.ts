@@ -1,4 +1,5 @@
 import { ParsedDocument } from '../src/parsedDocument';
+import { Parser } from 'php7parser';
 import { assert } from 'chai';
 import 'mocha';
 
@@ -7,6 +8,26 @@ var firstTokenSrc =
     class MyClass { }
 `;
 
+var applyChangesSrc =
+    `<?php
+    class Foo {
+        function bar() {
+            $a = 1;
+        }
+        function baz() { }
+    }
+    function fn() {
+        return 2;
+    }
+`;
+
+function edit(doc: ParsedDocument, offset: number, length: number, text: string) {
+    doc.applyChanges([{
+        range: { start: doc.positionAtOffset(offset), end: doc.positionAtOffset(offset + length) },
+        text: text
+    }]);
+}
+
 describe('ParsedDocument', function () {
 
     describe('firstToken', function () {
@@ -31,4 +52,45 @@ describe('ParsedDocument', function () {
 
     });
 
+    describe('applyChanges', function () {
+
+        it('reparses enclosing statement', () => {
+
+            let doc = new ParsedDocument('test', applyChangesSrc);
+            let fnDeclaration = doc.tree.children[3];
+            edit(doc, applyChangesSrc.indexOf('1;'), 1, '$b->c()');
+            edit(doc, doc.text.indexOf('baz() {') + 7, 0, ' return 3; ');
+            doc.flush();
+
+            assert.strictEqual(doc.tree.children[3], fnDeclaration);
+            assert.deepEqual(doc.tree, Parser.parse(doc.text));
+
+        });
+
+        it('reparses enclosing class member', () => {
+
+            let doc = new ParsedDocument('test', applyChangesSrc);
+            let fnDeclaration = doc.tree.children[3];
+            edit(doc, applyChangesSrc.indexOf('bar()') + 4, 0, '$x');
+            edit(doc, doc.text.indexOf('function baz'), 0, 'public ');
+            doc.flush();
+
+            assert.strictEqual(doc.tree.children[3], fnDeclaration);
+            assert.deepEqual(doc.tree, Parser.parse(doc.text));
+
+        });
+
+        it('falls back to full parse', () => {
+
+            let doc = new ParsedDocument('test', applyChangesSrc);
+            edit(doc, applyChangesSrc.indexOf('$a'), 0, '/*');
+            edit(doc, doc.text.indexOf('return'), 0, '} else {');
+            doc.flush();
+
+            assert.deepEqual(doc.tree, Parser.parse(doc.text));
+
+        });
+
+    });
+
 });
\ No newline at end of file
@@ -180,6 +180,39 @@ describe('PhpDocParser', function () {
             assert.deepEqual(phpDoc.methodTags, expected);
         });
 
+        it('@template @extends @implements', function () {
+
+            let text = `/**
+             * @template T
+             * @template V of \\Foo Value
+             * @extends Collection<T>
+             * @implements Iterator<int, V>
+             * @param class-string<T> $class
+             */`;
+            let phpDoc = PhpDocParser.parse(text);
+            let expected = <Tag[]>[
+                { tagName: '@template', typeString: '', name: 'T', description: '' },
+                { tagName: '@template', typeString: '\\Foo', name: 'V', description: 'Value' }
+            ];
+
+            assert.deepEqual(phpDoc.templateTags, expected);
+            assert.deepEqual(phpDoc.extendsTags.map((x) => { return x.typeString; }), ['Collection<T>', 'Iterator<int, V>']);
+            assert.equal(phpDoc.findParamTag('$class').typeString, 'class-string<T>');
+        });
+
+        it('callable signature types', function () {
+
+            let text = `/**
+             * @param callable(int, string $name=): bool $check Check
+             * @return Closure(Closure(int): void): (Foo|null)
+             */`;
+            let phpDoc = PhpDocParser.parse(text);
+            let param = phpDoc.findParamTag('$check');
+            assert.equal(param.typeString, 'callable(int, string $name=): bool');
+            assert.equal(param.description, 'Check');
+            assert.equal(phpDoc.returnTag.typeString, 'Closure(Closure(int): void): (Foo|null)');
+        });
+
 
     });
 
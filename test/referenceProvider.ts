@@ -7,6 +7,7 @@ import { assert } from 'chai';
 import { ReferenceReader } from '../src/referenceReader';
 import { ReferenceStore } from '../src/reference';
 import { MemoryCache } from '../src/cache';
+import { CancellationTokenSource } from 'vscode-jsonrpc';
 import 'mocha';
 
 let src =
@@ -523,4 +524,47 @@ describe('ReferencesProvider', () => {
         });
     });
 
+    it('progress and cancellation', () => {
+
+        let docStore = new ParsedDocumentStore();
+        let symbolStore = new SymbolStore();
+        let refStore = new ReferenceStore(new MemoryCache());
+        let decl = new ParsedDocument('decl', '<?php function foo() {}');
+        docStore.add(decl);
+        symbolStore.add(SymbolTable.create(decl));
+        refStore.add(ReferenceReader.discoverReferences(decl, symbolStore));
+        let closing: Promise<void>[] = [];
+        for (let n = 0; n < 8; ++n) {
+            let doc = new ParsedDocument('call' + n, '<?php foo();');
+            symbolStore.add(SymbolTable.create(doc));
+            refStore.add(ReferenceReader.discoverReferences(doc, symbolStore));
+            closing.push(refStore.close(doc.uri));
+        }
+        let provider = new ReferenceProvider(docStore, symbolStore, refStore);
+        let position = <lsp.Position>{ line: 0, character: 16 };
+        let context = <lsp.ReferenceContext>{ includeDeclaration: true };
+        let reported: number[] = [];
+        let source = new CancellationTokenSource();
+
+        return Promise.all(closing).then(() => {
+            return provider.provideReferenceLocations('decl', position, context, source.token, (done, total) => {
+                reported.push(done);
+                assert.equal(total, 9);
+            });
+        }).then((locs) => {
+            assert.lengthOf(locs, 9);
+            assert.deepEqual(reported, [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+            reported = [];
+            return provider.provideReferenceLocations('decl', position, context, source.token, (done, total) => {
+                reported.push(done);
+                source.cancel();
+            });
+        }).then((locs) => {
+            assert.isEmpty(locs);
+            //only the tables already being read are completed
+            assert.deepEqual(reported, [1, 2, 3, 4]);
+        });
+
+    });
+
 }); 
\ No newline at end of file
@@ -1,10 +1,10 @@
-import { SymbolKind } from '../src/symbol';
+import { SymbolKind, SymbolModifier } from '../src/symbol';
 import { SymbolStore, SymbolTable } from '../src/symbolStore';
 import { ParsedDocumentStore, ParsedDocument } from '../src/parsedDocument';
 import * as lsp from 'vscode-languageserver-types';
 import { assert } from 'chai';
 import { ReferenceReader } from '../src/referenceReader';
-import { ReferenceStore, Reference } from '../src/reference';
+import { ReferenceStore, Reference, ReferenceTable } from '../src/reference';
 import { MemoryCache } from '../src/cache';
 import 'mocha';
 import { SymbolReader } from '../src/symbolReader';
@@ -41,6 +41,32 @@ class SomeClass
 }
 `;
 
+let narrowingSrc =
+`<?php
+class Foo {}
+class Bar {}
+/** @var Foo|Bar|null $x */
+if ($x instanceof Foo) { $x; } elseif ($x === null) { $x; } else { $x; }
+function fn(?Foo $a, $b, $c, ?Bar $d) {
+    if ($a === null) { throw new Exception(); }
+    $a;
+    if (is_string($b) && $b) { $b; }
+    assert($c instanceof Bar);
+    $c;
+    foreach ([] as $i) {
+        if (!$x instanceof Bar) { continue; }
+        $x;
+    }
+    if (is_string($d)) { $d; } else { $d; }
+    $d;
+}
+`;
+
+function variableTypes(refTable: ReferenceTable, line: number) {
+    return refTable.references((x) => {
+        return x.kind === SymbolKind.Variable && x.location.range.start.line === line;
+    }).map((x) => { return x.type; });
+}
 
 describe('ReferenceReader', () => {
 
@@ -71,4 +97,69 @@ describe('ReferenceReader', () => {
     });
 
 
+    it('type narrowing', () => {
+        let refTable = readReferences(narrowingSrc);
+        assert.deepEqual(variableTypes(refTable, 4), ['Foo|Bar|null', 'Foo', 'Bar|null', 'null', 'Bar']);
+        assert.deepEqual(variableTypes(refTable, 7), ['Foo']);
+        assert.deepEqual(variableTypes(refTable, 8), ['', 'string', 'string']);
+        assert.deepEqual(variableTypes(refTable, 10), ['Bar']);
+        assert.deepEqual(variableTypes(refTable, 13), ['Bar']);
+        assert.deepEqual(variableTypes(refTable, 15), ['Bar|null', 'Bar|null', 'Bar|null']);
+        assert.deepEqual(variableTypes(refTable, 16), ['Bar|null']);
+    });
+
+    it('return type inference', () => {
+        let src = '<?php class Foo { function a() { return $this; } function b(): int {} function c() { yield 1; } }' +
+            ' function fn() { if (true) { return new Foo(); } $f = function () { return 1; }; return null; }' +
+            ' function make($x) { if ($x) { return new Foo(); } return $x->build(); }' +
+            ' function none() { if (true) { return; } return 1; }';
+        let store = new SymbolStore();
+        let doc = new ParsedDocument('test', src);
+        let table = SymbolTable.create(doc);
+        store.add(table);
+        ReferenceReader.discoverReferences(doc, store);
+        //read again
+        ReferenceReader.discoverReferences(doc, store);
+
+        let types = table.filter((x) => {
+            return (x.kind === SymbolKind.Method || x.kind === SymbolKind.Function) && !(x.modifiers & SymbolModifier.Anonymous);
+        }).map((x) => {
+            return [x.name, x.type, (x.modifiers & SymbolModifier.Inferred) > 0];
+        });
+        assert.deepEqual(types, [
+            ['a', 'Foo', true], ['b', 'int', false], ['c', 'Generator', true], ['fn', 'Foo|null', true],
+            ['make', 'Foo|mixed', true], ['none', 'mixed|int', true]
+        ]);
+    });
+
+    it('dependents of changed declarations', () => {
+
+        let store = new SymbolStore();
+        let refStore = new ReferenceStore(new MemoryCache());
+        let baseSrc = '<?php namespace App; class Base { function a() {} }';
+        let changedBaseSrc = '<?php namespace App;\n\n/** doc */\nclass Base { function a() { $x = 1; } function b() {} }';
+        let docs = [
+            new ParsedDocument('base', baseSrc),
+            new ParsedDocument('child', '<?php namespace App; class Child extends Base {}'),
+            new ParsedDocument('user', '<?php use App\\Child; function make(): Child {} make()->b();'),
+            new ParsedDocument('other', '<?php function other() {} other();')
+        ];
+        let tables = docs.map((x) => { return SymbolTable.create(x); });
+        tables.forEach((x) => { store.add(x); });
+        docs.forEach((x) => { refStore.add(ReferenceReader.discoverReferences(x, store)); });
+
+        //locations and local variables are ignored
+        let moved = SymbolTable.create(new ParsedDocument('base', '<?php\n\nnamespace App; class Base { function a() { $y = 2; } }'));
+        assert.isEmpty(SymbolTable.changedDeclarations(tables[0], moved));
+
+        let changed = SymbolTable.changedDeclarations(tables[0], SymbolTable.create(new ParsedDocument('base', changedBaseSrc)));
+        assert.deepEqual(changed, ['app\\base']);
+        assert.deepEqual(SymbolTable.changedDeclarations(tables[3], undefined), ['other']);
+
+        assert.sameMembers(refStore.dependents(['app\\base']), ['base', 'child']);
+        assert.sameMembers(refStore.dependents(['app\\child']), ['child', 'user']);
+        assert.sameMembers(refStore.dependents(['make']), ['user']);
+
+    });
+
 });
@@ -0,0 +1,156 @@
+import { RenameProvider } from '../src/renameProvider';
+import { ReferenceProvider } from '../src/referenceProvider';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { ParsedDocumentStore, ParsedDocument } from '../src/parsedDocument';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import * as lsp from 'vscode-languageserver-types';
+import { assert } from 'chai';
+import 'mocha';
+
+function setup(srcArray: string[]) {
+
+    let docStore = new ParsedDocumentStore();
+    let refStore = new ReferenceStore(new MemoryCache());
+    let symbolStore = new SymbolStore();
+    let doc: ParsedDocument;
+
+    symbolStore.add(SymbolTable.readBuiltInSymbols());
+
+    for (let n = 0; n < srcArray.length; ++n) {
+        doc = new ParsedDocument('doc' + n, srcArray[n]);
+        docStore.add(doc);
+        symbolStore.add(SymbolTable.create(doc));
+    }
+
+    for (let n = 0; n < srcArray.length; ++n) {
+        refStore.add(ReferenceReader.discoverReferences(docStore.find('doc' + n), symbolStore));
+    }
+
+    let referenceProvider = new ReferenceProvider(docStore, symbolStore, refStore);
+    return new RenameProvider(docStore, symbolStore, refStore, referenceProvider);
+
+}
+
+function editTexts(edit: lsp.WorkspaceEdit, uri: string) {
+    return (edit.changes[uri] || []).map((e) => {
+        return `${e.range.start.line}:${e.range.start.character}-${e.range.end.line}:${e.range.end.character} ${e.newText}`;
+    }).sort();
+}
+
+let classSrc =
+    `<?php
+namespace Foo;
+class Bar {}
+`;
+
+let classUseSrc =
+    `<?php
+namespace Baz;
+use Foo\\Bar;
+use Foo\\Bar as Alias;
+$a = new Bar();
+$b = new \\Foo\\Bar;
+function fn(Alias $x) {}
+`;
+
+let methodSrc =
+    `<?php
+interface Shape {
+    function area();
+}
+class Square implements Shape {
+    function area() {}
+}
+class Big extends Square {
+    function area() { parent::area(); }
+}
+$s = new Square();
+$s->area();
+`;
+
+let propertySrc =
+    `<?php
+class Foo {
+    public $bar;
+    function fn() { return $this->bar; }
+}
+`;
+
+let builtInSrc =
+    `<?php
+class Foo implements Countable {
+    function count() {}
+}
+`;
+
+describe('RenameProvider', () => {
+
+    it('class and use clauses across documents', () => {
+
+        let provider = setup([classSrc, classUseSrc]);
+        return provider.provideRenameEdits('doc0', { line: 2, character: 8 }, 'Qux').then((edit) => {
+            assert.deepEqual(editTexts(edit, 'doc0'), ['2:6-2:9 Qux']);
+            assert.deepEqual(editTexts(edit, 'doc1'), [
+                '2:8-2:11 Qux',
+                '3:8-3:11 Qux',
+                '4:9-4:12 Qux',
+                '5:14-5:17 Qux'
+            ]);
+        });
+
+    });
+
+    it('method overrides and implementations', () => {
+
+        let provider = setup([methodSrc]);
+        return provider.provideRenameEdits('doc0', { line: 11, character: 6 }, 'size').then((edit) => {
+            assert.deepEqual(editTexts(edit, 'doc0'), [
+                '11:4-11:8 size',
+                '2:13-2:17 size',
+                '5:13-5:17 size',
+                '8:13-8:17 size',
+                '8:30-8:34 size'
+            ]);
+        });
+
+    });
+
+    it('property', () => {
+
+        let provider = setup([propertySrc]);
+        return provider.provideRenameEdits('doc0', { line: 3, character: 35 }, '$baz').then((edit) => {
+            assert.deepEqual(editTexts(edit, 'doc0'), ['2:11-2:15 $baz', '3:34-3:37 baz']);
+        });
+
+    });
+
+    it('prepare rename', () => {
+
+        let provider = setup([classSrc, classUseSrc]);
+        assert.deepEqual(provider.prepareRename('doc1', { line: 4, character: 10 }), lsp.Range.create(4, 9, 4, 12));
+        assert.isNull(provider.prepareRename('doc1', { line: 6, character: 14 }));
+
+    });
+
+    it('built in members are not renamed', () => {
+
+        let provider = setup([builtInSrc]);
+        assert.isNull(provider.prepareRename('doc0', { line: 2, character: 14 }));
+        return provider.provideRenameEdits('doc0', { line: 2, character: 14 }, 'total').then((edit) => {
+            assert.isNull(edit);
+        });
+
+    });
+
+    it('invalid name', () => {
+
+        let provider = setup([propertySrc]);
+        return provider.provideRenameEdits('doc0', { line: 3, character: 35 }, '1abc').then((edit) => {
+            assert.isNull(edit);
+        });
+
+    });
+
+});
@@ -61,6 +61,23 @@ let helpWithTypeHintSrc =
     fn()
 `;
 
+let closureHelpSrc =
+`<?php
+    class Foo {}
+    $fn = function (int $id, string ...$names) { return new Foo(); };
+    $fn(1,)
+`;
+
+let callableHelpSrc =
+`<?php
+    /**
+     * @param callable(int, string): bool $check
+     */
+    function fn($check) {
+        $check()
+    }
+`;
+
 function setup(src: string) {
 
     let docStore = new ParsedDocumentStore();
@@ -243,6 +260,45 @@ describe('SignatureHelpProvider', function () {
             assert.deepEqual(help, expected);
 
         });
+
+        it('Closure variable help', function () {
+
+            let provider = setup(closureHelpSrc);
+            let help = provider.provideSignatureHelp('test', {line: 3, character:10});
+            let expected:lsp.SignatureHelp = {
+                activeParameter:1,
+                activeSignature:0,
+                signatures:[
+                    {
+                        label:'$fn(int $id, string ...$names): Foo',
+                        parameters:[
+                            { label:'int $id' },
+                            { label:'string ...$names' }
+                        ]
+                    }
+                ]
+            };
+            assert.deepEqual(help, expected);
+
+        });
+
+        it('Callable type help', function () {
+
+            let provider = setup(callableHelpSrc);
+            let help = provider.provideSignatureHelp('test', {line: 5, character:15});
+            assert.equal(help.signatures[0].label, '$check(int, string): bool');
+            assert.deepEqual(help.signatures[0].parameters, [{ label: 'int' }, { label: 'string' }]);
+            assert.equal(help.activeParameter, 0);
+
+        });
+
+        it('Nullable callable type help', function () {
+
+            let provider = setup(callableHelpSrc.replace('callable(', '?Closure('));
+            let help = provider.provideSignatureHelp('test', {line: 5, character:15});
+            assert.equal(help.signatures[0].label, '$check(int, string): bool');
+
+        });
        
 
     });
@@ -20,6 +20,20 @@ function symbolReaderOutput(src: string) {
 
 describe('SymbolReader', () => {
 
+    it('nullable, by ref and variadic parameters', function () {
+
+        let src = `<?php
+            function fn(?Foo $a, int &$b = 1, string ...$c): ?int {}
+        `;
+
+        let fn = symbolReaderOutput(src).children[0];
+        assert.equal(fn.type, 'int|null');
+        assert.equal(fn.children[0].type, 'Foo|null');
+        assert.equal(fn.children[1].modifiers, SymbolModifier.Reference);
+        assert.equal(fn.children[2].modifiers, SymbolModifier.Variadic);
+
+    });
+
     it('define', function () {
 
         let src = `<?php
@@ -0,0 +1,59 @@
+import { TypeHierarchyProvider } from '../src/typeHierarchyProvider';
+import { SymbolProvider } from '../src/symbolProvider';
+import { SymbolStore, SymbolTable } from '../src/symbolStore';
+import { ParsedDocument } from '../src/parsedDocument';
+import { ReferenceReader } from '../src/referenceReader';
+import { ReferenceStore } from '../src/reference';
+import { MemoryCache } from '../src/cache';
+import * as lsp from 'vscode-languageserver-types';
+import { assert } from 'chai';
+import 'mocha';
+
+function setup(src: string) {
+
+    let symbolStore = new SymbolStore();
+    let doc = new ParsedDocument('test', src);
+    let refStore = new ReferenceStore(new MemoryCache());
+    symbolStore.add(SymbolTable.create(doc));
+    refStore.add(ReferenceReader.discoverReferences(doc, symbolStore));
+    return new TypeHierarchyProvider(symbolStore, refStore, new SymbolProvider(symbolStore));
+
+}
+
+let src =
+    `<?php
+namespace Foo;
+interface Shape {}
+trait Named {}
+class Base implements Shape { use Named; }
+class Square extends Base {}
+class Cube extends Square {}
+`;
+
+describe('TypeHierarchyProvider', () => {
+
+    it('prepare', () => {
+        let provider = setup(src);
+        let items = provider.prepareTypeHierarchy('test', { line: 5, character: 21 });
+        assert.lengthOf(items, 1);
+        assert.equal(items[0].name, 'Base');
+        assert.equal(items[0].detail, 'Foo');
+        assert.equal(items[0].kind, lsp.SymbolKind.Class);
+        assert.deepEqual(items[0].data, { fqn: 'Foo\\Base' });
+    });
+
+    it('supertypes', () => {
+        let provider = setup(src);
+        let item = provider.prepareTypeHierarchy('test', { line: 4, character: 8 })[0];
+        assert.deepEqual(provider.supertypes(item).map((x) => { return x.name; }).sort(), ['Named', 'Shape']);
+    });
+
+    it('subtypes', () => {
+        let provider = setup(src);
+        let item = provider.prepareTypeHierarchy('test', { line: 2, character: 12 })[0];
+        let subtypes = provider.subtypes(item);
+        assert.deepEqual(subtypes.map((x) => { return x.name; }), ['Base']);
+        assert.deepEqual(provider.subtypes(provider.subtypes(subtypes[0])[0]).map((x) => { return x.name; }), ['Cube']);
+    });
+
+});
@@ -33,4 +33,89 @@ describe('TypeString', function(){
 
     });
 
+    describe('generics', function () {
+
+        it('Should not resolve templates or class-string', function () {
+            let resolver = new NameResolver();
+            resolver.namespace = { kind: SymbolKind.Namespace, name: 'Foo' };
+            let ts = 'class-string<T>|Collection<int, T>';
+            assert.equal(TypeString.nameResolve(ts, resolver, ['T']), 'class-string<T>|Foo\\Collection<int, T>');
+        });
+
+        it('Should split generic arguments', function () {
+            assert.equal(TypeString.genericName('Foo\\Map<int, Bar<Baz>>'), 'Foo\\Map');
+            assert.deepEqual(TypeString.genericArguments('Foo\\Map<int, Bar<Baz>>'), ['int', 'Bar<Baz>']);
+            assert.deepEqual(TypeString.atomicClassArray('Map<int, A|B>|class-string<C>|null'), ['Map<int, A|B>']);
+            assert.equal(TypeString.nonGeneric('Map<int, A|B>|null'), 'Map|null');
+        });
+
+        it('Should substitute templates', function () {
+            let types = { T: 'Foo|Bar', K: 'int' };
+            assert.equal(TypeString.substitute('T[]|Map<K, T>', types), '(Foo|Bar)[]|Map<int, Foo|Bar>');
+        });
+
+        it('Should infer templates', function () {
+            let types = {};
+            TypeString.inferTemplateTypes('class-string<T>', 'class-string<Foo>', ['T', 'V'], types);
+            TypeString.inferTemplateTypes('V|null', 'Bar|null', ['T', 'V'], types);
+            assert.deepEqual(types, { T: 'Foo', V: 'Bar' });
+        });
+
+    });
+
+    describe('callable types', function () {
+
+        it('Should parse signatures', function () {
+            let signature = TypeString.callableSignature('null|\\Closure(int $id, Foo|Bar, string ...$names=): (Foo|null)');
+            assert.deepEqual(signature, {
+                parameters: [
+                    { type: 'int', name: '$id', isVariadic: false, isOptional: false },
+                    { type: 'Foo|Bar', name: '', isVariadic: false, isOptional: false },
+                    { type: 'string', name: '$names', isVariadic: true, isOptional: true }
+                ],
+                returnType: 'Foo|null'
+            });
+            assert.isNull(TypeString.callableSignature('callable|Closure'));
+            assert.deepEqual(TypeString.callableSignature('?Closure(int): User'), {
+                parameters: [{ type: 'int', name: '', isVariadic: false, isOptional: false }],
+                returnType: 'User'
+            });
+        });
+
+        it('Should create callable types', function () {
+            let params = TypeString.callableSignature('callable(int $id, string): void').parameters;
+            assert.equal(TypeString.callable(params, 'Foo|null'), 'Closure(int $id, string): (Foo|null)');
+            assert.equal(TypeString.callable([], '', 'callable'), 'callable()');
+        });
+
+        it('Should resolve signature types', function () {
+            let resolver = new NameResolver();
+            resolver.namespace = { kind: SymbolKind.Namespace, name: 'Foo' };
+            assert.equal(TypeString.nameResolve('callable(Bar $bar): Baz', resolver), 'callable(Foo\\Bar $bar): Foo\\Baz');
+        });
+
+    });
+
+    describe('array types', function () {
+
+        it('Should dereference generic arrays', function () {
+            assert.equal(TypeString.arrayDereference('array<int, Foo>|list<Bar>|iterable<Baz[]>'), 'Foo|Bar|Baz[]');
+            assert.equal(TypeString.arrayDereference('array<string, array<int, Foo>>'), 'array<int, Foo>');
+        });
+
+        it('Should dereference array shapes', function () {
+            let ts = "array{id: int, 'user': Foo, tags?: list<string>}";
+            assert.equal(TypeString.arrayDereference(ts, 'user'), 'Foo');
+            assert.equal(TypeString.arrayDereference(ts), 'int|Foo|list<string>');
+            assert.equal(TypeString.arrayDereference('array{int, Foo}', '1'), 'Foo');
+        });
+
+        it('Should not resolve shape keys', function () {
+            let resolver = new NameResolver();
+            resolver.namespace = { kind: SymbolKind.Namespace, name: 'Foo' };
+            assert.equal(TypeString.nameResolve('array{user: User, count?: int}', resolver), 'array{user: Foo\\User, count?: int}');
+        });
+
+    });
+
 });
\ No newline at end of file
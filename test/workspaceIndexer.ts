@@ -0,0 +1,233 @@
+import { WorkspaceIndexer, WorkspaceFile } from '../src/workspaceIndexer';
+import * as lsp from 'vscode-languageserver-types';
+import { FileChangeType } from 'vscode-languageserver-protocol';
+import * as util from '../src/util';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { assert } from 'chai';
+import 'mocha';
+
+let files: { [index: string]: string } = {
+    'src/Foo.php': '<?php class Foo {}',
+    'src/Bar/Bar.php': '<?php class Bar extends Foo {}',
+    'src/readme.txt': 'not php',
+    'vendor/lib/Baz.php': '<?php class Baz {}',
+    'node_modules/pkg/Qux.php': '<?php class Qux {}',
+    'tests/Big.php': '<?php /* ' + 'x'.repeat(100) + ' */'
+};
+
+function createWorkspace() {
+    let root = fs.mkdtempSync(path.join(os.tmpdir(), 'intelephense-'));
+    Object.keys(files).forEach((x) => {
+        fs.outputFileSync(path.join(root, x), files[x]);
+    });
+    return root;
+}
+
+function relativePaths(root: string, paths: string[]) {
+    return paths.map((x) => { return path.relative(root, x).replace(/\\/g, '/'); });
+}
+
+describe('WorkspaceIndexer', () => {
+
+    let root: string;
+
+    before(() => {
+        root = createWorkspace();
+    });
+
+    after(() => {
+        fs.removeSync(root);
+    });
+
+    it('include exclude globs', () => {
+        let indexer = new WorkspaceIndexer(null, null);
+        indexer.exclude = ['**/node_modules/**', 'tests/**'];
+        assert.isTrue(indexer.isIncluded('Foo.php'));
+        assert.isTrue(indexer.isIncluded('src/Foo.php'));
+        assert.isFalse(indexer.isIncluded('src/Foo.phps'));
+        assert.isFalse(indexer.isIncluded('a/node_modules/b/Foo.php'));
+        assert.isTrue(indexer.isExcluded('node_modules'));
+        assert.isFalse(indexer.isIncluded('tests/Foo.php'));
+        indexer.include = ['**/*.{php,inc}'];
+        assert.isTrue(indexer.isIncluded('src/lib.inc'));
+    });
+
+    it('find files', () => {
+        let indexer = new WorkspaceIndexer(null, null);
+        indexer.maxSize = 100;
+        return indexer.findFiles(root).then((found) => {
+            assert.deepEqual(relativePaths(root, found.map((x) => { return x.path; })), [
+                'src/Bar/Bar.php',
+                'src/Foo.php',
+                'vendor/lib/Baz.php'
+            ]);
+            assert.equal(found[1].uri.slice(0, 8), 'file:///');
+            assert.notEqual(found[1].uri[8], '/');
+            assert.equal(found[1].size, files['src/Foo.php'].length);
+        });
+    });
+
+    it('symlink loops', () => {
+        let loopRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'intelephense-'));
+        fs.outputFileSync(path.join(loopRoot, 'a/Foo.php'), '<?php class Foo {}');
+        fs.symlinkSync(loopRoot, path.join(loopRoot, 'a/loop'), 'dir');
+        let indexer = new WorkspaceIndexer(null, null);
+        return indexer.findFiles(loopRoot).then((found) => {
+            fs.removeSync(loopRoot);
+            assert.deepEqual(relativePaths(loopRoot, found.map((x) => { return x.path; })), ['a/Foo.php']);
+        });
+    });
+
+    it('symbols discovered before references', () => {
+        let calls: string[] = [];
+        let symbolsFn = (doc: lsp.TextDocumentItem) => {
+            calls.push('symbols ' + path.basename(doc.uri));
+            return 1;
+        };
+        let referencesFn = (doc: lsp.TextDocumentItem) => {
+            calls.push('references ' + path.basename(doc.uri));
+            return 1;
+        };
+        let progress: string[] = [];
+        let progressFn = (done: number, total: number) => {
+            progress.push(done + '/' + total);
+        };
+        let indexer = new WorkspaceIndexer(symbolsFn, referencesFn);
+        indexer.exclude = ['**/node_modules/**', 'tests/**', 'vendor/**'];
+        return indexer.index(root, undefined, progressFn).then((result) => {
+            assert.lengthOf(result.files, 2);
+            assert.lengthOf(result.added, 2);
+            assert.deepEqual(calls, ['symbols Bar.php', 'symbols Foo.php', 'references Bar.php', 'references Foo.php']);
+            assert.deepEqual(progress, ['1/4', '2/4', '3/4', '4/4']);
+        });
+    });
+
+    it('unchanged cached files are not rediscovered', () => {
+        let uris: string[] = [];
+        let fn = (doc: lsp.TextDocumentItem) => {
+            uris.push(path.basename(doc.uri));
+            return 1;
+        };
+        let indexer = new WorkspaceIndexer(fn, fn);
+        indexer.exclude = ['**/node_modules/**', 'tests/**', 'vendor/**'];
+        let isCachedFn = (file: WorkspaceFile) => { return true; };
+        let fooPath = path.join(root, 'src/Foo.php');
+        let barPath = path.join(root, 'src/Bar/Bar.php');
+
+        return indexer.index(root, isCachedFn).then((result) => {
+            assert.lengthOf(result.files, 2);
+            assert.deepEqual(uris, ['Bar.php', 'Foo.php', 'Bar.php', 'Foo.php']);
+            assert.equal(indexer.files.get(result.files[1].uri).hash, util.md5(files['src/Foo.php']));
+            uris = [];
+            return indexer.index(root, isCachedFn);
+        }).then(() => {
+            assert.isEmpty(uris);
+            //touched but same content
+            fs.utimesSync(fooPath, new Date(), new Date(Date.now() + 10000));
+            fs.writeFileSync(barPath, '<?php class Bar {}');
+            return indexer.index(root, isCachedFn);
+        }).then(() => {
+            assert.deepEqual(uris, ['Bar.php', 'Bar.php']);
+            uris = [];
+            //not cached
+            return indexer.index(root, (x) => { return path.basename(x.path) !== 'Foo.php'; });
+        }).then(() => {
+            assert.deepEqual(uris, ['Foo.php', 'Foo.php']);
+            fs.writeFileSync(barPath, files['src/Bar/Bar.php']);
+        });
+    });
+
+    it('verify cached files', () => {
+        let calls: string[] = [];
+        let fn = (doc: lsp.TextDocumentItem) => {
+            calls.push(path.basename(doc.uri));
+            return 1;
+        };
+        let indexer = new WorkspaceIndexer(fn, fn);
+        indexer.exclude = ['**/node_modules/**', 'tests/**', 'vendor/**'];
+        indexer.forgetFn = (uri) => {
+            calls.push('forget ' + path.basename(uri));
+        };
+        let isCachedFn = (file: WorkspaceFile) => { return true; };
+        let gonePath = path.join(root, 'src/Gone.php');
+        let barPath = path.join(root, 'src/Bar/Bar.php');
+        fs.outputFileSync(gonePath, '<?php class Gone {}');
+
+        return indexer.index(root, isCachedFn).then(() => {
+            calls = [];
+            fs.removeSync(gonePath);
+            fs.writeFileSync(barPath, '<?php class Bar {}');
+            return indexer.verify(isCachedFn);
+        }).then((result) => {
+            assert.deepEqual(calls, ['forget Gone.php', 'Bar.php', 'Bar.php']);
+            assert.deepEqual(result.changed.map((x) => { return path.basename(x); }), ['Bar.php']);
+            assert.deepEqual(result.removed.map((x) => { return path.basename(x); }), ['Gone.php']);
+            assert.equal(result.unchanged, 1);
+            assert.isFalse(indexer.files.has(util.pathToUri(gonePath)));
+            fs.writeFileSync(barPath, files['src/Bar/Bar.php']);
+        });
+    });
+
+    it('rediscover references', () => {
+        let calls: string[] = [];
+        let symbolsFn = (doc: lsp.TextDocumentItem) => {
+            calls.push('symbols ' + path.basename(doc.uri));
+            return 1;
+        };
+        let referencesFn = (doc: lsp.TextDocumentItem) => {
+            calls.push('references ' + path.basename(doc.uri));
+            return 1;
+        };
+        let indexer = new WorkspaceIndexer(symbolsFn, referencesFn);
+        indexer.rootPath = path.join(root, 'src');
+        return indexer.rediscoverReferences([
+            util.pathToUri(path.join(root, 'src/Foo.php')),
+            util.pathToUri(path.join(root, 'vendor/lib/Baz.php')),
+            'untitled:Untitled-1'
+        ]).then((uris) => {
+            assert.deepEqual(calls, ['references Foo.php']);
+            assert.deepEqual(uris, [util.pathToUri(path.join(root, 'src/Foo.php'))]);
+            assert.equal(indexer.files.size, 0);
+        });
+    });
+
+    it('watched file changes', () => {
+        let calls: string[] = [];
+        let symbolsFn = (doc: lsp.TextDocumentItem) => {
+            calls.push('symbols ' + path.basename(doc.uri));
+            return 1;
+        };
+        let referencesFn = (doc: lsp.TextDocumentItem) => {
+            calls.push('references ' + path.basename(doc.uri));
+            return 1;
+        };
+        let indexer = new WorkspaceIndexer(symbolsFn, referencesFn);
+        indexer.rootPath = root;
+        indexer.batchSize = 1;
+        indexer.forgetFn = (uri) => {
+            calls.push('forget ' + path.basename(uri));
+        };
+        let uriFn = (p: string) => { return util.pathToUri(path.join(root, p)); };
+        let first = indexer.onDidChangeWatchedFiles([
+            { uri: uriFn('src/Foo.php'), type: FileChangeType.Created },
+            { uri: uriFn('src/Gone.php'), type: FileChangeType.Deleted },
+            { uri: uriFn('src/Old.php'), type: FileChangeType.Deleted },
+            { uri: uriFn('node_modules/pkg/Qux.php'), type: FileChangeType.Changed }
+        ]);
+        //coalesced into the next batch
+        let second = indexer.onDidChangeWatchedFiles([
+            { uri: uriFn('src/Bar/Bar.php'), type: FileChangeType.Changed },
+            { uri: uriFn('src/Bar/Bar.php'), type: FileChangeType.Changed }
+        ]);
+        assert.strictEqual(first, second);
+        return first.then(() => {
+            assert.deepEqual(calls, [
+                'forget Gone.php', 'forget Old.php', 'symbols Foo.php', 'references Foo.php',
+                'symbols Bar.php', 'references Bar.php'
+            ]);
+        });
+    });
+
+});